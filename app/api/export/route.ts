@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { buildExport, exportFileName, isExportFormat, EXPORT_CONTENT_TYPES, EXPORT_FORMATS } from '@/lib/export';
+import { loadSnapshot } from '@/lib/history';
+import { getWeights, requestDeployment } from '@/lib/upstream';
+import { parseModels, type WeightsData } from '@/lib/weights';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/export?format=csv             -> current leaderboard, highest weight first
+// GET /api/export?format=ndjson&block=N  -> a recorded snapshot from /api/history
+// Current data honours ?deployment=; snapshots are only recorded for the default one.
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const format = searchParams.get('format') ?? 'csv';
+  const blockParam = searchParams.get('block');
+
+  if (!isExportFormat(format)) {
+    return NextResponse.json(
+      { error: `format must be one of ${EXPORT_FORMATS.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  let data: WeightsData | null;
+  if (blockParam !== null && blockParam !== '') {
+    const block = parseInt(blockParam);
+    if (isNaN(block)) {
+      return NextResponse.json({ error: 'block must be a block number' }, { status: 400 });
+    }
+    data = await loadSnapshot(block);
+    if (!data) {
+      return NextResponse.json({ error: `No snapshot recorded for block ${block}` }, { status: 404 });
+    }
+  } else {
+    const { deployment, error } = requestDeployment(request);
+    if (error) return error;
+    try {
+      ({ entry: { value: data } } = await getWeights(deployment));
+    } catch (error) {
+      console.error('Error fetching weights:', error);
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Failed to fetch weights' },
+        { status: 502 }
+      );
+    }
+  }
+
+  const models = parseModels(data).sort((a, b) => b.weight - a.weight || a.uid - b.uid);
+
+  return new NextResponse(buildExport(models, data, format), {
+    headers: {
+      'Content-Type': EXPORT_CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="${exportFileName(data.block, format)}"`,
+    },
+  });
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { collectSnapshot } from '@/lib/history';
+
+export const dynamic = 'force-dynamic';
+
+// Records the current upstream snapshot; useful from cron when the
+// background collector is disabled (e.g. on serverless deployments)
+export async function POST() {
+  try {
+    return NextResponse.json(await collectSnapshot());
+  } catch (error) {
+    console.error('Error collecting snapshot:', error);
+    return NextResponse.json({ error: 'Failed to collect snapshot' }, { status: 502 });
+  }
+}
@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { getHealthHistory, getLatestBlock, getMinerHistory, listSnapshots, loadSnapshot } from '@/lib/history';
+import { dashboardConfig } from '@/lib/config';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/history              -> recorded snapshot blocks
+// GET /api/history?uid=42       -> weight/points time series for one UID
+// GET /api/history?series=health -> network concentration per recorded block
+// All three accept ?days=N (relative to the latest snapshot) or ?from=<block>
+// GET /api/history?block=N      -> the full weights payload recorded at block N
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const blockParam = searchParams.get('block');
+  if (blockParam !== null) {
+    const block = parseInt(blockParam);
+    if (isNaN(block)) {
+      return NextResponse.json({ error: 'block must be a block number' }, { status: 400 });
+    }
+    const snapshot = await loadSnapshot(block);
+    if (!snapshot) {
+      return NextResponse.json({ error: `No snapshot recorded for block ${block}` }, { status: 404 });
+    }
+    return NextResponse.json(snapshot);
+  }
+
+  const seriesParam = searchParams.get('series');
+  if (seriesParam !== null && seriesParam !== 'health') {
+    return NextResponse.json({ error: 'series must be health' }, { status: 400 });
+  }
+  const uidParam = searchParams.get('uid');
+  const daysParam = searchParams.get('days');
+  const fromParam = searchParams.get('from');
+
+  let fromBlock = 0;
+  if (fromParam !== null) {
+    fromBlock = parseInt(fromParam);
+    if (isNaN(fromBlock)) {
+      return NextResponse.json({ error: 'from must be a block number' }, { status: 400 });
+    }
+  } else if (daysParam !== null) {
+    const days = parseFloat(daysParam);
+    if (isNaN(days) || days <= 0) {
+      return NextResponse.json({ error: 'days must be a positive number' }, { status: 400 });
+    }
+    const latest = await getLatestBlock();
+    const blocksPerDay = 86400 / dashboardConfig().blockTimeSeconds;
+    fromBlock = latest !== null ? latest - Math.ceil(days * blocksPerDay) : 0;
+  }
+
+  if (seriesParam === 'health') {
+    return NextResponse.json({ points: await getHealthHistory(fromBlock) });
+  }
+
+  if (uidParam === null) {
+    return NextResponse.json({ snapshots: await listSnapshots(fromBlock) });
+  }
+
+  const uid = parseInt(uidParam);
+  if (isNaN(uid)) {
+    return NextResponse.json({ error: 'uid must be a number' }, { status: 400 });
+  }
+
+  return NextResponse.json({ uid, points: await getMinerHistory(uid, fromBlock) });
+}
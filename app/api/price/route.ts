@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { cachedJsonResponse, getTaoPrice, upstreamConfig } from '@/lib/upstream';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  try {
+    return cachedJsonResponse(request, await getTaoPrice(), upstreamConfig().price.ttl);
+  } catch (error) {
+    console.error('Error fetching TAO price:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch TAO price' },
+      { status: 502 }
+    );
+  }
+}
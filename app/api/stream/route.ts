@@ -0,0 +1,58 @@
+import { requestDeployment, subscribeWeights, upstreamConfig } from '@/lib/upstream';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/stream?deployment=<id> - Server-Sent Events:
+//   weights         full weights payload, sent on connect and whenever the block changes
+//   upstream-error  { error } when polling upstream fails; the last payload is stale
+//   ping            { time } keep-alive
+export async function GET(request: Request) {
+  const { deployment, error } = requestDeployment(request);
+  if (error) return error;
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const write = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+      const send = (event: string, data: string) => write(`event: ${event}\ndata: ${data}\n\n`);
+
+      const unsubscribe = subscribeWeights(event => {
+        if (event.type === 'weights') send('weights', event.body);
+        else send('upstream-error', JSON.stringify({ error: event.message }));
+      }, deployment);
+      const heartbeat = setInterval(
+        () => send('ping', JSON.stringify({ time: Date.now() })),
+        upstreamConfig().stream.heartbeatInterval
+      );
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      // A cancelled body is already closed; closing it again would throw
+      request.signal.addEventListener('abort', () => {
+        if (closed) return;
+        cleanup();
+        controller.close();
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { cachedJsonResponse, getWeights, requestDeployment, upstreamConfig } from '@/lib/upstream';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/weights?deployment=<id>  (default deployment when omitted)
+export async function GET(request: Request) {
+  const { deployment, error } = requestDeployment(request);
+  if (error) return error;
+
+  try {
+    return cachedJsonResponse(request, await getWeights(deployment), upstreamConfig().weights.ttl);
+  } catch (error) {
+    console.error('Error fetching weights:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch weights' },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,329 @@
+'use client';
+
+import { useState, useEffect, useCallback, Suspense, type ReactNode } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { motion } from 'framer-motion';
+import {
+  AlertTriangle,
+  ArrowLeft,
+  CheckCircle,
+  ExternalLink,
+  GitCompare,
+  RefreshCw,
+  Trophy
+} from 'lucide-react';
+import {
+  ageInDays,
+  envLabel,
+  getLayerColumns,
+  parseEnvCell,
+  parseModels,
+  validateWeightsData,
+  type ModelRow,
+  type WeightsData
+} from '@/lib/weights';
+import { parseCompareUids, rankValues, type Standing } from '@/lib/compare';
+import { dashboardConfig, withDeployment } from '@/lib/config';
+
+const CONFIG = dashboardConfig();
+
+const STANDING_CLASSES: Record<Standing, string> = {
+  best: 'bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-400 font-semibold',
+  worst: 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400',
+  middle: 'text-yellow-700 dark:text-yellow-400',
+  tied: 'text-gray-700 dark:text-gray-300',
+  none: 'text-gray-400 dark:text-gray-500',
+};
+
+const labelClass = 'px-6 py-3 whitespace-nowrap text-sm font-medium text-gray-600 dark:text-gray-400';
+
+function SectionRow({ title, span }: { title: string; span: number }) {
+  return (
+    <tr className="bg-gray-50 dark:bg-gray-900/50">
+      <td colSpan={span} className="px-6 py-2 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+        {title}
+      </td>
+    </tr>
+  );
+}
+
+// One numeric metric across the compared miners, coloured by standing
+function MetricRow({ label, values, format }: {
+  label: ReactNode;
+  values: (number | null)[];
+  format: (value: number, best: number) => ReactNode;
+}) {
+  const standings = rankValues(values);
+  const best = Math.max(...values.filter((v): v is number => v !== null));
+  return (
+    <tr>
+      <td className={labelClass}>{label}</td>
+      {values.map((value, i) => (
+        <td key={i} className={`px-6 py-3 whitespace-nowrap text-sm ${STANDING_CLASSES[standings[i]]}`}>
+          {value === null ? 'N/A' : format(value, best)}
+        </td>
+      ))}
+    </tr>
+  );
+}
+
+function CompareView() {
+  const searchParams = useSearchParams();
+  const uids = parseCompareUids(searchParams.get('uids'));
+  const deployment = searchParams.get('deployment');
+  const [weightsData, setWeightsData] = useState<WeightsData | null>(null);
+  const [models, setModels] = useState<ModelRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch(withDeployment('/api/weights', deployment, CONFIG));
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || `Weights request failed with ${response.status}`);
+      }
+      const data = validateWeightsData(await response.json());
+      setWeightsData(data);
+      setModels(parseModels(data));
+      setError(null);
+    } catch (error) {
+      console.error('Error fetching data:', error);
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [deployment]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const selected = uids
+    .map(uid => models.find(m => m.uid === uid))
+    .filter((m): m is ModelRow => m !== undefined);
+  const missing = weightsData ? uids.filter(uid => !selected.some(m => m.uid === uid)) : [];
+  const totalWeight = models.reduce((sum, m) => sum + m.weight, 0);
+  const block = weightsData?.block || 0;
+  const span = selected.length + 1;
+
+  // Revisions shared by more than one compared miner, e.g. a fork of the same commit
+  const sharedRevisions = new Set(
+    selected.map(m => m.revision).filter((rev, i, all) => rev && all.indexOf(rev) !== i)
+  );
+
+  if (isLoading && !weightsData) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-purple-50 dark:from-gray-900 dark:via-blue-900/20 dark:to-purple-900/20 flex items-center justify-center">
+        <div className="text-center">
+          <RefreshCw className="animate-spin mx-auto mb-4 text-blue-600" size={48} />
+          <p className="text-xl text-gray-600 dark:text-gray-400">Loading comparison...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-purple-50 dark:from-gray-900 dark:via-blue-900/20 dark:to-purple-900/20">
+      {/* Header */}
+      <header className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-lg shadow-sm border-b border-gray-200 dark:border-gray-700 sticky top-0 z-50">
+        <div className="max-w-full mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <Link href={withDeployment('/', deployment, CONFIG)} className="text-sm text-gray-600 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 flex items-center space-x-1">
+                <ArrowLeft size={14} />
+                <span>Leaderboard</span>
+              </Link>
+              <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-600 via-purple-600 to-pink-600 bg-clip-text text-transparent mt-1 flex items-center">
+                <GitCompare className="mr-2 text-purple-600" size={28} />
+                Compare Miners
+              </h1>
+            </div>
+            <div className="flex items-center space-x-6">
+              <div className="text-right">
+                <p className="text-xs text-gray-500 dark:text-gray-400">Block</p>
+                <p className="text-lg font-bold font-mono">#{weightsData?.block.toLocaleString()}</p>
+              </div>
+              <button
+                onClick={fetchData}
+                disabled={isLoading}
+                className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition disabled:opacity-50"
+                title="Refresh data"
+              >
+                <RefreshCw size={20} className={isLoading ? 'animate-spin' : ''} />
+              </button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {error && (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-800 dark:text-red-300 rounded-xl p-4 mb-8 flex items-start space-x-3">
+            <AlertTriangle size={20} className="shrink-0 mt-0.5" />
+            <div>
+              <p className="font-semibold">Could not load weights data</p>
+              <p className="text-sm">{error}</p>
+            </div>
+          </div>
+        )}
+
+        {missing.length > 0 && (
+          <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 text-yellow-800 dark:text-yellow-300 rounded-xl p-4 mb-8 text-sm">
+            Not registered at block #{weightsData?.block.toLocaleString()}: UID {missing.join(', ')}
+          </div>
+        )}
+
+        {selected.length < 2 ? (
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-12 text-center border border-gray-200 dark:border-gray-700">
+            <p className="text-xl font-semibold mb-2">Select at least two miners</p>
+            <p className="text-gray-600 dark:text-gray-400">
+              Tick the checkboxes in the leaderboard and press Compare.
+            </p>
+          </div>
+        ) : (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="bg-white dark:bg-gray-800 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700 overflow-x-auto"
+          >
+            <table className="w-full">
+              <thead>
+                <tr>
+                  <th className="px-6 py-4"></th>
+                  {selected.map(m => (
+                    <th key={m.uid} className="px-6 py-4 text-left align-top">
+                      <Link href={withDeployment(`/miner/${m.uid}`, deployment, CONFIG)} className="text-lg font-bold hover:text-blue-600 dark:hover:text-blue-400">
+                        UID {m.uid}
+                      </Link>
+                      <a
+                        href={`https://huggingface.co/${m.model}/tree/${m.revision}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="mt-1 text-sm font-normal text-gray-600 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 flex items-center space-x-1 break-all"
+                      >
+                        <span>{m.model}</span>
+                        <ExternalLink size={12} className="shrink-0" />
+                      </a>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                <SectionRow title="Overview" span={span} />
+                <tr>
+                  <td className={labelClass}>Revision</td>
+                  {selected.map(m => (
+                    <td key={m.uid} className="px-6 py-3 text-sm">
+                      <code
+                        className={`font-mono text-xs px-2 py-1 rounded ${
+                          sharedRevisions.has(m.revision)
+                            ? 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-400'
+                            : 'bg-gray-100 dark:bg-gray-900'
+                        }`}
+                        title={sharedRevisions.has(m.revision) ? 'Same revision as another compared miner' : m.revision}
+                      >
+                        {m.revision.slice(0, 12) || '—'}
+                      </code>
+                    </td>
+                  ))}
+                </tr>
+                <tr>
+                  <td className={labelClass}>Eligible</td>
+                  {selected.map(m => (
+                    <td key={m.uid} className="px-6 py-3 text-sm">
+                      {m.eligible ? (
+                        <span className="text-green-600 dark:text-green-400 flex items-center space-x-1">
+                          <CheckCircle size={14} />
+                          <span>Yes</span>
+                        </span>
+                      ) : (
+                        <span className="text-gray-500 dark:text-gray-400">No</span>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+                <MetricRow
+                  label="Weight Share"
+                  values={selected.map(m => m.weight)}
+                  format={(v) => `${totalWeight > 0 ? ((v / totalWeight) * 100).toFixed(2) : '0.00'}%`}
+                />
+                <MetricRow label="Points" values={selected.map(m => m.totalPoints)} format={(v) => v} />
+                <MetricRow
+                  label="Avg Env Score"
+                  values={selected.map(m => m.avgEnvScore)}
+                  format={(v) => `${v.toFixed(2)}%`}
+                />
+                <MetricRow
+                  label="Total Samples"
+                  values={selected.map(m => m.totalSamples)}
+                  format={(v) => v.toLocaleString()}
+                />
+                <tr>
+                  <td className={labelClass}>Age</td>
+                  {selected.map(m => (
+                    <td key={m.uid} className="px-6 py-3 whitespace-nowrap text-sm">
+                      {ageInDays(m.firstBlock, block, CONFIG.blockTimeSeconds).toFixed(2)} days
+                    </td>
+                  ))}
+                </tr>
+
+                <SectionRow title="Environment Accuracy" span={span} />
+                {weightsData?.data.environments.map(env => (
+                  <MetricRow
+                    key={env}
+                    label={
+                      <span className="flex items-center space-x-1">
+                        <span>{envLabel(env)}</span>
+                        {selected.some(m => weightsData.data.env_winners[env] === m.hotkey) && (
+                          <Trophy size={12} className="text-yellow-500" />
+                        )}
+                      </span>
+                    }
+                    values={selected.map(m => parseEnvCell(m.environments[env]).accuracy)}
+                    format={(v, best) => (
+                      <span className="flex items-center space-x-1">
+                        <span>{v.toFixed(2)}%</span>
+                        {v < best && <span className="text-xs">({(v - best).toFixed(2)})</span>}
+                      </span>
+                    )}
+                  />
+                ))}
+
+                <SectionRow title="Environment Samples" span={span} />
+                {weightsData?.data.environments.map(env => (
+                  <MetricRow
+                    key={env}
+                    label={envLabel(env)}
+                    values={selected.map(m => parseEnvCell(m.environments[env]).samples)}
+                    format={(v) => v.toLocaleString()}
+                  />
+                ))}
+
+                <SectionRow title="Layer Points" span={span} />
+                {weightsData && getLayerColumns(weightsData.data.header).map(layer => (
+                  <MetricRow
+                    key={layer}
+                    label={layer}
+                    values={selected.map(m => m.layerPoints[layer] ?? 0)}
+                    format={(v) => v}
+                  />
+                ))}
+              </tbody>
+            </table>
+          </motion.div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function ComparePage() {
+  return (
+    <Suspense>
+      <CompareView />
+    </Suspense>
+  );
+}
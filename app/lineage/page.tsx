@@ -0,0 +1,266 @@
+'use client';
+
+import { useState, useEffect, useCallback, Suspense } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { motion } from 'framer-motion';
+import {
+  AlertTriangle,
+  ArrowLeft,
+  Copy,
+  ExternalLink,
+  GitFork,
+  RefreshCw
+} from 'lucide-react';
+import {
+  ageInDays,
+  parseModels,
+  validateWeightsData,
+  type ModelRow,
+  type WeightsData
+} from '@/lib/weights';
+import { dashboardConfig, withDeployment } from '@/lib/config';
+import { clusterModels } from '@/lib/lineage';
+
+const CONFIG = dashboardConfig();
+
+function LineageView() {
+  const deployment = useSearchParams().get('deployment');
+  const [weightsData, setWeightsData] = useState<WeightsData | null>(null);
+  const [models, setModels] = useState<ModelRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [duplicatesOnly, setDuplicatesOnly] = useState(false);
+
+  const fetchData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch(withDeployment('/api/weights', deployment, CONFIG));
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || `Weights request failed with ${response.status}`);
+      }
+      const data = validateWeightsData(await response.json());
+      setWeightsData(data);
+      setModels(parseModels(data));
+      setError(null);
+    } catch (error) {
+      console.error('Error fetching data:', error);
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [deployment]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const clusters = clusterModels(models);
+  const flagged = clusters.filter(c => c.duplicateRevisions.length > 0);
+  const shown = duplicatesOnly ? flagged : clusters;
+
+  if (isLoading && !weightsData) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-purple-50 dark:from-gray-900 dark:via-blue-900/20 dark:to-purple-900/20 flex items-center justify-center">
+        <div className="text-center">
+          <RefreshCw className="animate-spin mx-auto mb-4 text-blue-600" size={48} />
+          <p className="text-xl text-gray-600 dark:text-gray-400">Loading lineages...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-purple-50 dark:from-gray-900 dark:via-blue-900/20 dark:to-purple-900/20">
+      {/* Header */}
+      <header className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-lg shadow-sm border-b border-gray-200 dark:border-gray-700 sticky top-0 z-50">
+        <div className="max-w-full mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <Link href={withDeployment('/', deployment, CONFIG)} className="text-sm text-gray-600 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 flex items-center space-x-1">
+                <ArrowLeft size={14} />
+                <span>Leaderboard</span>
+              </Link>
+              <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-600 via-purple-600 to-pink-600 bg-clip-text text-transparent mt-1 flex items-center">
+                <GitFork className="mr-2 text-purple-600" size={28} />
+                Model Lineage
+              </h1>
+            </div>
+            <div className="flex items-center space-x-6">
+              <div className="text-right">
+                <p className="text-xs text-gray-500 dark:text-gray-400">Block</p>
+                <p className="text-lg font-bold font-mono">#{weightsData?.block.toLocaleString()}</p>
+              </div>
+              <button
+                onClick={fetchData}
+                disabled={isLoading}
+                className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition disabled:opacity-50"
+                title="Refresh data"
+              >
+                <RefreshCw size={20} className={isLoading ? 'animate-spin' : ''} />
+              </button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {error && (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-800 dark:text-red-300 rounded-xl p-4 mb-8 flex items-start space-x-3">
+            <AlertTriangle size={20} className="shrink-0 mt-0.5" />
+            <div>
+              <p className="font-semibold">Could not load weights data</p>
+              <p className="text-sm">{error}</p>
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Rows sharing a model name (ignoring org, case and fork suffixes) or an exact revision are grouped.
+            The earliest first block in each group is marked as the original.
+          </p>
+          <div className="flex space-x-2 shrink-0">
+            <button
+              onClick={() => setDuplicatesOnly(false)}
+              className={`px-4 py-2 rounded-lg font-medium transition ${
+                !duplicatesOnly
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+              }`}
+            >
+              All Groups ({clusters.length})
+            </button>
+            <button
+              onClick={() => setDuplicatesOnly(true)}
+              className={`px-4 py-2 rounded-lg font-medium transition ${
+                duplicatesOnly
+                  ? 'bg-red-600 text-white'
+                  : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+              }`}
+            >
+              Duplicate Revisions ({flagged.length})
+            </button>
+          </div>
+        </div>
+
+        {shown.length === 0 && (
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-12 text-center border border-gray-200 dark:border-gray-700">
+            <p className="text-xl font-semibold mb-2">No lineages found</p>
+            <p className="text-gray-600 dark:text-gray-400">Every registered model is unique at this block.</p>
+          </div>
+        )}
+
+        <div className="space-y-6">
+          {shown.map((cluster, clusterIndex) => {
+            const duplicated = new Set(cluster.duplicateRevisions.map(d => d.revision));
+            return (
+              <motion.div
+                key={cluster.members[0].uid}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: Math.min(clusterIndex * 0.05, 0.5) }}
+                className={`bg-white dark:bg-gray-800 rounded-xl shadow-lg border ${
+                  duplicated.size > 0 ? 'border-red-200 dark:border-red-800' : 'border-gray-200 dark:border-gray-700'
+                }`}
+              >
+                <div className="border-b border-gray-200 dark:border-gray-700 p-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                  <div>
+                    <h3 className="text-lg font-semibold font-mono">{cluster.key}</h3>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      {cluster.members.length} submissions · {cluster.repos.length} repos
+                    </p>
+                  </div>
+                  {duplicated.size > 0 && (
+                    <span className="px-3 py-1 rounded-full text-xs font-medium bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-400 flex items-center space-x-1 self-start sm:self-auto">
+                      <Copy size={12} />
+                      <span>
+                        {cluster.duplicateRevisions.length} revision{cluster.duplicateRevisions.length > 1 ? 's' : ''} submitted by multiple hotkeys
+                      </span>
+                    </span>
+                  )}
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead className="bg-gray-50 dark:bg-gray-900/50">
+                      <tr>
+                        {['UID', 'Model', 'Hotkey', 'Revision', 'First Block', 'Weight'].map(label => (
+                          <th key={label} className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                            {label}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                      {cluster.members.map((m, i) => (
+                        <tr key={m.uid} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 transition">
+                          <td className="px-6 py-3 whitespace-nowrap">
+                            <Link href={withDeployment(`/miner/${m.uid}`, deployment, CONFIG)} className="text-sm font-bold hover:text-blue-600 dark:hover:text-blue-400">
+                              {m.uid}
+                            </Link>
+                            {i === 0 && (
+                              <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-400">
+                                Original
+                              </span>
+                            )}
+                          </td>
+                          <td className="px-6 py-3">
+                            <a
+                              href={`https://huggingface.co/${m.model}/tree/${m.revision}`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-sm hover:text-blue-600 dark:hover:text-blue-400 flex items-center space-x-1"
+                            >
+                              <span className="break-all">{m.model}</span>
+                              <ExternalLink size={12} className="shrink-0" />
+                            </a>
+                          </td>
+                          <td className="px-6 py-3 whitespace-nowrap">
+                            <code className="text-xs bg-gray-100 dark:bg-gray-900 px-2 py-1 rounded font-mono" title={m.hotkey}>
+                              {m.hotkey.slice(0, 8)}...{m.hotkey.slice(-6)}
+                            </code>
+                          </td>
+                          <td className="px-6 py-3 whitespace-nowrap">
+                            <code
+                              className={`text-xs px-2 py-1 rounded font-mono ${
+                                duplicated.has(m.revision)
+                                  ? 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-400'
+                                  : 'bg-gray-100 dark:bg-gray-900'
+                              }`}
+                              title={m.revision}
+                            >
+                              {m.revision.slice(0, 12) || '—'}
+                            </code>
+                          </td>
+                          <td className="px-6 py-3 whitespace-nowrap text-sm font-mono">
+                            #{m.firstBlock.toLocaleString()}
+                            <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                              {ageInDays(m.firstBlock, weightsData?.block || 0, CONFIG.blockTimeSeconds).toFixed(1)}d ago
+                            </span>
+                          </td>
+                          <td className="px-6 py-3 whitespace-nowrap text-sm font-medium">
+                            {(m.weight * 100).toFixed(2)}%
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </motion.div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// useSearchParams needs a Suspense boundary when the page is prerendered
+export default function LineagePage() {
+  return (
+    <Suspense>
+      <LineageView />
+    </Suspense>
+  );
+}
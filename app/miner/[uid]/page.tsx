@@ -0,0 +1,354 @@
+'use client';
+
+import { useState, useEffect, useCallback, Suspense } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { motion } from 'framer-motion';
+import {
+  AlertTriangle,
+  ArrowLeft,
+  CheckCircle,
+  Clock,
+  ExternalLink,
+  Layers,
+  RefreshCw,
+  Scale,
+  Target
+} from 'lucide-react';
+import {
+  ageInDays,
+  envInterval,
+  envLabel,
+  parseEnvCell,
+  parseModels,
+  validateWeightsData,
+  type ModelRow,
+  type WeightsData
+} from '@/lib/weights';
+import { dashboardConfig, withDeployment } from '@/lib/config';
+
+const CONFIG = dashboardConfig();
+
+function MinerView({ params }: { params: { uid: string } }) {
+  const deployment = useSearchParams().get('deployment');
+  const uid = parseInt(params.uid);
+  const [weightsData, setWeightsData] = useState<WeightsData | null>(null);
+  const [models, setModels] = useState<ModelRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch(withDeployment('/api/weights', deployment, CONFIG));
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || `Weights request failed with ${response.status}`);
+      }
+      // Reject drifted payloads instead of rendering them as zeros
+      const data = validateWeightsData(await response.json());
+      setWeightsData(data);
+      setModels(parseModels(data));
+      setError(null);
+    } catch (error) {
+      console.error('Error fetching data:', error);
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [deployment]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const model = models.find(m => m.uid === uid);
+  const totalWeight = models.reduce((sum, m) => sum + m.weight, 0);
+  const weightRank = model
+    ? models.filter(m => m.weight > model.weight).length + 1
+    : null;
+
+  if (isLoading && !weightsData) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-purple-50 dark:from-gray-900 dark:via-blue-900/20 dark:to-purple-900/20 flex items-center justify-center">
+        <div className="text-center">
+          <RefreshCw className="animate-spin mx-auto mb-4 text-blue-600" size={48} />
+          <p className="text-xl text-gray-600 dark:text-gray-400">Loading miner {params.uid}...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-purple-50 dark:from-gray-900 dark:via-blue-900/20 dark:to-purple-900/20">
+      {/* Header */}
+      <header className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-lg shadow-sm border-b border-gray-200 dark:border-gray-700 sticky top-0 z-50">
+        <div className="max-w-full mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <Link href={withDeployment('/', deployment, CONFIG)} className="text-sm text-gray-600 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 flex items-center space-x-1">
+                <ArrowLeft size={14} />
+                <span>Leaderboard</span>
+              </Link>
+              <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-600 via-purple-600 to-pink-600 bg-clip-text text-transparent mt-1">
+                UID {params.uid}
+              </h1>
+            </div>
+            <div className="flex items-center space-x-6">
+              <div className="text-right">
+                <p className="text-xs text-gray-500 dark:text-gray-400">Block</p>
+                <p className="text-lg font-bold font-mono">#{weightsData?.block.toLocaleString()}</p>
+              </div>
+              <button
+                onClick={fetchData}
+                disabled={isLoading}
+                className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition disabled:opacity-50"
+                title="Refresh data"
+              >
+                <RefreshCw size={20} className={isLoading ? 'animate-spin' : ''} />
+              </button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {error && (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-800 dark:text-red-300 rounded-xl p-4 mb-8 flex items-start space-x-3">
+            <AlertTriangle size={20} className="shrink-0 mt-0.5" />
+            <div>
+              <p className="font-semibold">Could not load weights data</p>
+              <p className="text-sm">{error}</p>
+            </div>
+          </div>
+        )}
+
+        {!model ? (
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-12 text-center border border-gray-200 dark:border-gray-700">
+            <p className="text-xl font-semibold mb-2">No miner with UID {params.uid}</p>
+            <p className="text-gray-600 dark:text-gray-400">
+              It is not registered at block #{weightsData?.block.toLocaleString()}.
+            </p>
+          </div>
+        ) : (
+          <>
+            {/* Identity */}
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mb-8 border border-gray-200 dark:border-gray-700"
+            >
+              <div className="flex items-start justify-between mb-4">
+                <div className="min-w-0">
+                  <p className="text-sm text-gray-600 dark:text-gray-400 mb-1">Model</p>
+                  <a
+                    href={`https://huggingface.co/${model.model}/tree/${model.revision}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-xl font-bold break-all hover:text-blue-600 dark:hover:text-blue-400 flex items-center space-x-2"
+                  >
+                    <span>{model.model}</span>
+                    <ExternalLink size={16} className="shrink-0" />
+                  </a>
+                </div>
+                {model.eligible ? (
+                  <span className="px-2 py-1 rounded-full text-xs font-medium bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-400 flex items-center space-x-1 shrink-0">
+                    <CheckCircle size={12} />
+                    <span>Eligible</span>
+                  </span>
+                ) : (
+                  <span className="px-2 py-1 rounded-full text-xs font-medium bg-gray-100 dark:bg-gray-900/30 text-gray-800 dark:text-gray-400 shrink-0">
+                    Not Eligible
+                  </span>
+                )}
+              </div>
+              <div className="space-y-3">
+                <div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Hotkey</p>
+                  <code className="block text-sm bg-gray-100 dark:bg-gray-900 px-2 py-1 rounded font-mono break-all">
+                    {model.hotkey}
+                  </code>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Revision</p>
+                  <code className="block text-sm bg-gray-100 dark:bg-gray-900 px-2 py-1 rounded font-mono break-all">
+                    {model.revision}
+                  </code>
+                </div>
+              </div>
+            </motion.div>
+
+            {/* Summary Cards */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.1 }}
+                className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 border border-blue-200 dark:border-blue-800"
+              >
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm text-gray-600 dark:text-gray-400 mb-1">Weight</p>
+                    <p className="text-3xl font-bold">{(model.weight * 100).toFixed(2)}%</p>
+                  </div>
+                  <div className="p-3 bg-blue-100 dark:bg-blue-900/30 rounded-lg">
+                    <Scale className="text-blue-600 dark:text-blue-400" size={28} />
+                  </div>
+                </div>
+                <div className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+                  <span>
+                    #{weightRank} of {models.length} ·{' '}
+                    {totalWeight > 0 ? ((model.weight / totalWeight) * 100).toFixed(2) : '0.00'}% of total weight
+                  </span>
+                </div>
+              </motion.div>
+
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.2 }}
+                className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 border border-purple-200 dark:border-purple-800"
+              >
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm text-gray-600 dark:text-gray-400 mb-1">Points</p>
+                    <p className="text-3xl font-bold">{model.totalPoints}</p>
+                  </div>
+                  <div className="p-3 bg-purple-100 dark:bg-purple-900/30 rounded-lg">
+                    <Layers className="text-purple-600 dark:text-purple-400" size={28} />
+                  </div>
+                </div>
+                <div className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+                  <span>{model.totalSamples.toLocaleString()} samples</span>
+                </div>
+              </motion.div>
+
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.3 }}
+                className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 border border-green-200 dark:border-green-800"
+              >
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm text-gray-600 dark:text-gray-400 mb-1">Age</p>
+                    <p className="text-3xl font-bold">
+                      {ageInDays(model.firstBlock, weightsData?.block || 0, CONFIG.blockTimeSeconds).toFixed(2)} days
+                    </p>
+                  </div>
+                  <div className="p-3 bg-green-100 dark:bg-green-900/30 rounded-lg">
+                    <Clock className="text-green-600 dark:text-green-400" size={28} />
+                  </div>
+                </div>
+                <div className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+                  <span>First seen at block #{model.firstBlock?.toLocaleString()}</span>
+                </div>
+              </motion.div>
+            </div>
+
+            {/* Environment Breakdown */}
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700 mb-8">
+              <div className="border-b border-gray-200 dark:border-gray-700 p-6">
+                <h3 className="text-lg font-semibold flex items-center">
+                  <Target className="mr-2" size={20} />
+                  Environments
+                </h3>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-gray-50 dark:bg-gray-900/50">
+                    <tr>
+                      <th className="px-6 py-4 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                        Environment
+                      </th>
+                      <th className="px-6 py-4 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                        Accuracy
+                      </th>
+                      <th className="px-6 py-4 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                        95% CI
+                      </th>
+                      <th className="px-6 py-4 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                        Samples
+                      </th>
+                      <th className="px-6 py-4 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                        Raw
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {Object.entries(model.environments).map(([env, raw]) => {
+                      const score = parseEnvCell(raw);
+                      const interval = envInterval(raw);
+                      return (
+                        <tr key={env}>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                            {envLabel(env)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            {score.accuracy !== null ? (
+                              <span className="text-sm font-semibold text-purple-600 dark:text-purple-400">
+                                {score.accuracy.toFixed(2)}%
+                                {score.marked && (
+                                  <span className="ml-1 text-yellow-500" title="Marked with * upstream">*</span>
+                                )}
+                              </span>
+                            ) : (
+                              <span className="text-sm text-gray-400 dark:text-gray-500">N/A</span>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                            {interval
+                              ? `${interval.lower.toFixed(2)}–${interval.upper.toFixed(2)}%`
+                              : '—'}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-orange-600 dark:text-orange-400">
+                            {score.samples.toLocaleString()}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <code className="text-xs text-gray-500 dark:text-gray-400 font-mono">{raw || '—'}</code>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            {/* Layer Points */}
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 border border-gray-200 dark:border-gray-700">
+              <h3 className="text-lg font-semibold flex items-center mb-4">
+                <Layers className="mr-2" size={20} />
+                Layer Points
+              </h3>
+              <div className="grid grid-cols-3 md:grid-cols-6 gap-4">
+                {Object.entries(model.layerPoints).map(([layer, points]) => (
+                  <div
+                    key={layer}
+                    className={`rounded-lg p-4 text-center ${
+                      points > 0
+                        ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-400'
+                        : 'bg-gray-100 dark:bg-gray-900/30 text-gray-500 dark:text-gray-400'
+                    }`}
+                  >
+                    <p className="text-xs font-medium">{layer}</p>
+                    <p className="text-2xl font-bold">{points}</p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// useSearchParams needs a Suspense boundary when the page is prerendered
+export default function MinerDetail({ params }: { params: { uid: string } }) {
+  return (
+    <Suspense>
+      <MinerView params={params} />
+    </Suspense>
+  );
+}
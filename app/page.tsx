@@ -1,9 +1,12 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef, Suspense } from 'react';
+import Link from 'next/link';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
 import { motion } from 'framer-motion';
 import { 
   Activity,
+  AlertTriangle,
   Brain,
   Server,
   Award,
@@ -13,216 +16,574 @@ import {
   ExternalLink,
   CheckCircle,
   Clock,
-  Target
+  Target,
+  Trophy,
+  Check,
+  Link2,
+  SlidersHorizontal,
+  Download,
+  GitCompare,
+  BarChart3,
+  ChevronDown,
+  Coins,
+  Settings,
+  GitFork,
+  Star,
+  SearchX,
+  Inbox,
+  WifiOff,
+  FlaskConical,
+  HeartPulse,
+  Network
 } from 'lucide-react';
+import {
+  ageInDays,
+  avgLowerBound,
+  envInterval,
+  envLabel,
+  parseEnvCell,
+  diffSnapshots,
+  getLayerColumns,
+  parseModels,
+  tiedWithLeader,
+  validateWeightsData,
+  type ModelRow,
+  type WeightsData
+} from '@/lib/weights';
+import {
+  parseViewState,
+  serializeViewState,
+  type LeaderboardTab,
+  type ScoreMode,
+  type SortDirection
+} from '@/lib/view-state';
+import {
+  EMPTY_FILTER,
+  countActiveFilters,
+  type AdvancedFilter
+} from '@/lib/filters';
+import { buildExport, exportFileName, EXPORT_CONTENT_TYPES, EXPORT_FORMATS, type ExportFormat } from '@/lib/export';
+import { MAX_COMPARE } from '@/lib/compare';
+import { filterModels, sortModels } from '@/lib/leaderboard';
+import {
+  DEFAULT_EMISSIONS,
+  blocksPerDay,
+  estimateEarnings,
+  normalizeEmissionsConfig,
+  type EmissionsConfig
+} from '@/lib/emissions';
+import { MAINNET_ID, dashboardConfig, findDeployment, withDeployment } from '@/lib/config';
+import type { HealthPoint, SnapshotMeta } from '@/lib/history';
+import { STALE_AFTER_MS, reconnectDelay, type LiveStatus } from '@/lib/live';
+import { formatAge, loadLastGood, saveLastGood } from '@/lib/offline';
+import {
+  EMPTY_WATCHLIST,
+  isWatched,
+  parseWatchlist,
+  pinWatched,
+  summarizeWatchlist,
+  toggleWatch,
+  type Watchlist
+} from '@/lib/watchlist';
+import ChangesPanel from '@/components/ChangesPanel';
+import ChartsSection from '@/components/ChartsSection';
+import EmissionsSettings from '@/components/EmissionsSettings';
+import FilterPanel from '@/components/FilterPanel';
+import NetworkHealthPanel from '@/components/NetworkHealthPanel';
+import Pagination from '@/components/Pagination';
+import SimulatorPanel from '@/components/SimulatorPanel';
+import TimeTravel from '@/components/TimeTravel';
+import WatchlistCard from '@/components/WatchlistCard';
 
-interface WeightsData {
-  schema_version: string;
-  timestamp: number;
-  block: number;
-  data: {
-    header: string[];
-    rows: any[][];
-    stats: {
-      eligible_count: number;
-      active_count: number;
-      queryable_count: number;
-      total_miners: number;
-    };
-    env_winners: Record<string, string>;
-    environments: string[];
-  };
-}
+const CONFIG = dashboardConfig();
+
+const EMISSIONS_STORAGE_KEY = 'af-leaderboard:emissions';
+const WATCHLIST_STORAGE_KEY = 'af-leaderboard:watchlist';
 
-interface ModelRow {
-  uid: number;
-  hotkey: string;
-  model: string;
-  revision: string;
-  environments: Record<string, string>;
-  layerPoints: Record<string, number>;
-  totalPoints: number;
-  eligible: boolean;
-  firstBlock: number;
-  weight: number;
-  avgEnvScore: number | null;
-  totalSamples: number;
+const LIVE_INDICATOR: Record<LiveStatus, { label: string; icon: string; text: string; title: string }> = {
+  connecting: {
+    label: 'CONNECTING',
+    icon: 'text-gray-400 animate-pulse',
+    text: 'text-gray-500 dark:text-gray-400',
+    title: 'Opening the live stream',
+  },
+  connected: {
+    label: 'LIVE',
+    icon: 'text-green-500 animate-pulse',
+    text: 'text-green-600 dark:text-green-400',
+    title: 'Receiving live updates',
+  },
+  stale: {
+    label: 'STALE',
+    icon: 'text-yellow-500',
+    text: 'text-yellow-600 dark:text-yellow-400',
+    title: 'Connected, but upstream is failing or silent; data may be outdated',
+  },
+  disconnected: {
+    label: 'OFFLINE',
+    icon: 'text-red-500',
+    text: 'text-red-600 dark:text-red-400',
+    title: 'Live stream lost, reconnecting',
+  },
+  polling: {
+    label: 'POLLING',
+    icon: 'text-blue-500',
+    text: 'text-blue-600 dark:text-blue-400',
+    title: 'Live stream unsupported by this browser; refreshing on a timer',
+  },
+};
+
+interface ReplayView {
+  data: WeightsData;
+  models: ModelRow[];
+  previous: { block: number; models: ModelRow[] } | null;
 }
 
-export default function AffineDashboard() {
-  const [weightsData, setWeightsData] = useState<WeightsData | null>(null);
-  const [models, setModels] = useState<ModelRow[]>([]);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [sortField, setSortField] = useState<string>('weight');
-  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
-  const [lastUpdate, setLastUpdate] = useState(new Date());
+function AffineDashboard() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  // The view starts from the URL so a pasted link reopens it exactly
+  const [initialView] = useState(() => parseViewState(new URLSearchParams(searchParams.toString())));
+  // An unknown ?deployment= falls back to the default
+  const [deploymentId, setDeploymentId] = useState(
+    () => findDeployment(CONFIG, initialView.deployment)?.id ?? CONFIG.defaultDeployment
+  );
+  const deployment = findDeployment(CONFIG, deploymentId)!;
+  // History is only recorded for the default deployment
+  const onDefault = deploymentId === CONFIG.defaultDeployment;
+  // Responses still in flight after a switch belong to the old deployment
+  const deploymentRef = useRef(deploymentId);
+  const [liveData, setLiveData] = useState<WeightsData | null>(null);
+  const [liveModels, setLiveModels] = useState<ModelRow[]>([]);
+  const [searchQuery, setSearchQuery] = useState(initialView.search);
+  const [sortField, setSortField] = useState<string>(initialView.sort);
+  const [sortDirection, setSortDirection] = useState<SortDirection>(initialView.dir);
+  const [page, setPage] = useState(initialView.page);
+  const [pageSize, setPageSize] = useState(initialView.size);
+  // Time of the last successful payload; null until one arrives
+  const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
   const [taoPrice, setTaoPrice] = useState<number | null>(null);
-  const [selectedTab, setSelectedTab] = useState<'all' | 'eligible'>('all');
+  const [selectedTab, setSelectedTab] = useState<LeaderboardTab>(initialView.tab);
   const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [visibleEnvs, setVisibleEnvs] = useState<string[]>(initialView.columns);
+  const [focusEnv, setFocusEnv] = useState<string | null>(initialView.focus);
+  const [scoreMode, setScoreMode] = useState<ScoreMode>(initialView.score);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [advancedFilter, setAdvancedFilter] = useState<AdvancedFilter>(EMPTY_FILTER);
+  const [showFilters, setShowFilters] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [compareUids, setCompareUids] = useState<number[]>([]);
+  const [showCharts, setShowCharts] = useState(false);
+  const [showSimulator, setShowSimulator] = useState(false);
+  const [showHealth, setShowHealth] = useState(false);
+  const [healthHistory, setHealthHistory] = useState<HealthPoint[]>([]);
+  const [emissions, setEmissions] = useState<EmissionsConfig>(DEFAULT_EMISSIONS);
+  const [showEmissionsSettings, setShowEmissionsSettings] = useState(false);
+  const [watchlist, setWatchlist] = useState<Watchlist>(EMPTY_WATCHLIST);
+  const [liveStatus, setLiveStatus] = useState<LiveStatus>('connecting');
+  // Consecutive failed fetches; drives the retry backoff
+  const [failures, setFailures] = useState(0);
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  // True while showing the IndexedDB copy instead of a fresh payload
+  const [fromCache, setFromCache] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  // The last distinct block seen before the current one, for the diff view
+  const [previous, setPrevious] = useState<{ block: number; models: ModelRow[] } | null>(null);
+  // Stream listeners are bound once, so the current block is tracked via a ref
+  const currentRef = useRef<{ block: number; models: ModelRow[] } | null>(null);
+  // Time travel: recorded blocks, and the snapshot shown instead of live data
+  const [snapshots, setSnapshots] = useState<SnapshotMeta[]>([]);
+  const [replayBlock, setReplayBlock] = useState<number | null>(null);
+  const [replay, setReplay] = useState<ReplayView | null>(null);
+  const snapshotCache = useRef(new Map<number, { data: WeightsData; models: ModelRow[] }>());
+
+  // Everything below renders the replayed snapshot when one is selected
+  const weightsData = replay?.data ?? liveData;
+  const models = replay?.models ?? liveModels;
+  // Stable between renders so the simulator can memoize on it
+  const layerColumns = useMemo(() => (weightsData ? getLayerColumns(weightsData.data.header) : []), [weightsData]);
 
-  // Fetch TAO price from CoinGecko
+  // Fetch TAO price (CoinGecko, proxied by /api/price)
   const fetchTaoPrice = async () => {
     try {
-      const response = await fetch('https://api.coingecko.com/api/v3/simple/price?ids=bittensor&vs_currencies=usd');
+      const response = await fetch('/api/price');
       const data = await response.json();
-      if (data.bittensor && data.bittensor.usd) {
-        setTaoPrice(data.bittensor.usd);
+      if (response.ok && typeof data.usd === 'number') {
+        setTaoPrice(data.usd);
       }
     } catch (error) {
       console.error('Error fetching TAO price:', error);
     }
   };
 
+  const applyWeights = useCallback((data: WeightsData) => {
+    const parsed = parseModels(data);
+    if (currentRef.current && currentRef.current.block !== data.block) {
+      setPrevious(currentRef.current);
+    }
+    currentRef.current = { block: data.block, models: parsed };
+    setLiveData(data);
+    setLiveModels(parsed);
+    setError(null);
+    setFailures(0);
+    setFromCache(false);
+    setLastUpdate(new Date());
+    saveLastGood(data, deploymentId);
+  }, [deploymentId]);
+
   // Fetch data from API
-  const fetchData = async () => {
+  const fetchData = useCallback(async () => {
     try {
       setIsLoading(true);
-      const response = await fetch('https://dashboard.affine.io/api/weights');
-      const data: WeightsData = await response.json();
-      setWeightsData(data);
-      
-      // Parse rows into model objects
-      const parsedModels: ModelRow[] = data.data.rows.map((row) => {
-        const headerMap: Record<string, number> = {};
-        data.data.header.forEach((h, i) => headerMap[h] = i);
-        
-        const environments: Record<string, string> = {};
-        data.data.environments.forEach(env => {
-          environments[env] = row[headerMap[env]] || '';
-        });
-
-        // Calculate average environment score and total samples
-        const parseEnvScore = (scoreStr: string) => {
-          if (!scoreStr || scoreStr === '') return null;
-          const parts = scoreStr.split('/');
-          if (parts.length < 1) return null;
-          const accuracy = parseFloat(parts[0].replace('*', ''));
-          return isNaN(accuracy) ? null : accuracy;
-        };
-
-        const parseTotalSamples = (scoreStr: string) => {
-          if (!scoreStr || scoreStr === '') return 0;
-          const parts = scoreStr.split('/');
-          if (parts.length < 3) return 0;
-          const samples = parseInt(parts[2]);
-          return isNaN(samples) ? 0 : samples;
-        };
-
-        const scores = Object.values(environments)
-          .map(parseEnvScore)
-          .filter((score): score is number => score !== null);
-        
-        const avgEnvScore = scores.length > 0 
-          ? scores.reduce((sum, score) => sum + score, 0) / scores.length 
-          : null;
-
-        const totalSamples = Object.values(environments)
-          .reduce((sum, env) => sum + parseTotalSamples(env), 0);
-
-        return {
-          uid: row[headerMap['UID']],
-          hotkey: row[headerMap['Hotkey']],
-          model: row[headerMap['Model']],
-          revision: row[headerMap['Rev']],
-          environments,
-          layerPoints: {
-            L3: row[headerMap['L3']] || 0,
-            L4: row[headerMap['L4']] || 0,
-            L5: row[headerMap['L5']] || 0,
-            L6: row[headerMap['L6']] || 0,
-            L7: row[headerMap['L7']] || 0,
-            L8: row[headerMap['L8']] || 0,
-          },
-          totalPoints: row[headerMap['Pts']] || 0,
-          eligible: row[headerMap['Elig']] === 'Y',
-          firstBlock: row[headerMap['FirstBlk']],
-          weight: row[headerMap['Wgt']] || 0,
-          avgEnvScore,
-          totalSamples,
-        };
-      });
-
-      setModels(parsedModels);
-      setLastUpdate(new Date());
+      const response = await fetch(withDeployment('/api/weights', deploymentId, CONFIG));
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || `Weights request failed with ${response.status}`);
+      }
+      // Reject drifted payloads instead of rendering them as zeros
+      const data = validateWeightsData(await response.json());
+      if (deploymentRef.current === deploymentId) applyWeights(data);
     } catch (error) {
       console.error('Error fetching data:', error);
+      if (deploymentRef.current !== deploymentId) return;
+      setError(error instanceof Error ? error.message : String(error));
+      setFailures(f => f + 1);
     } finally {
       setIsLoading(false);
     }
+  }, [applyWeights, deploymentId]);
+
+  // Starts over on another deployment: nothing shown so far carries across
+  const switchDeployment = (id: string) => {
+    deploymentRef.current = id;
+    currentRef.current = null;
+    setDeploymentId(id);
+    setLiveData(null);
+    setLiveModels([]);
+    setPrevious(null);
+    setReplayBlock(null);
+    setSnapshots([]);
+    setCompareUids([]);
+    setError(null);
+    setFailures(0);
+    setFromCache(false);
+    setLastUpdate(null);
+    setLiveStatus('connecting');
+    setIsLoading(true);
+    setPage(1);
   };
 
+  // Failed fetches retry with backoff until a fetch or the stream succeeds
+  useEffect(() => {
+    if (failures === 0) {
+      setRetryAt(null);
+      return;
+    }
+    const delay = reconnectDelay(failures - 1);
+    setRetryAt(Date.now() + delay);
+    const timer = setTimeout(fetchData, delay);
+    return () => clearTimeout(timer);
+  }, [failures, fetchData]);
+
+  const degraded = !replay && (
+    failures > 0 || fromCache || liveStatus === 'stale' || liveStatus === 'disconnected'
+  );
+
+  // Ticks the data age and retry countdown shown in the degraded banner
   useEffect(() => {
+    if (!degraded) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [degraded]);
+
+  // Recorded snapshot blocks for the time travel slider
+  const fetchSnapshots = async () => {
+    try {
+      const response = await fetch('/api/history');
+      const data = await response.json();
+      if (response.ok && Array.isArray(data.snapshots)) {
+        setSnapshots(data.snapshots);
+      }
+    } catch (error) {
+      console.error('Error fetching snapshots:', error);
+    }
+  };
+
+  const loadSnapshotBlock = async (block: number) => {
+    const cached = snapshotCache.current.get(block);
+    if (cached) return cached;
+    const response = await fetch(`/api/history?block=${block}`);
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.error || `Snapshot request failed with ${response.status}`);
+    }
+    const data = validateWeightsData(await response.json());
+    const entry = { data, models: parseModels(data) };
+    snapshotCache.current.set(block, entry);
+    return entry;
+  };
+
+  // Loads the selected snapshot and the one recorded before it, for the diff view
+  useEffect(() => {
+    if (replayBlock === null) {
+      setReplay(null);
+      return;
+    }
+    let cancelled = false;
+    const index = snapshots.findIndex(s => s.block === replayBlock);
+    const previousBlock = index > 0 ? snapshots[index - 1].block : null;
+    (async () => {
+      try {
+        const current = await loadSnapshotBlock(replayBlock);
+        const before = previousBlock !== null ? await loadSnapshotBlock(previousBlock) : null;
+        if (cancelled) return;
+        setReplay({
+          ...current,
+          previous: before ? { block: before.data.block, models: before.models } : null,
+        });
+        setError(null);
+      } catch (error) {
+        console.error('Error loading snapshot:', error);
+        if (!cancelled) setError(error instanceof Error ? error.message : String(error));
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [replayBlock, snapshots]);
+
+  // Concentration trend for the health panel, refreshed as snapshots are recorded
+  useEffect(() => {
+    if (!showHealth || !onDefault) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const response = await fetch('/api/history?series=health');
+        const data = await response.json();
+        if (!cancelled && response.ok && Array.isArray(data.points)) setHealthHistory(data.points);
+      } catch (error) {
+        console.error('Error fetching health history:', error);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [showHealth, onDefault, snapshots.length]);
+
+  useEffect(() => {
+    // Render the last saved payload right away, unless live data beat it
+    loadLastGood(deploymentId).then(cached => {
+      if (!cached || currentRef.current || deploymentRef.current !== deploymentId) return;
+      setLiveData(cached.data);
+      setLiveModels(parseModels(cached.data));
+      setLastUpdate(new Date(cached.savedAt));
+      setFromCache(true);
+    });
     fetchData();
     fetchTaoPrice();
+    if (onDefault) fetchSnapshots();
     
-    // Auto-refresh every 10 seconds for real-time updates
-    const interval = setInterval(fetchData, 10000);
-    // Refresh TAO price every 5 minutes
-    const priceInterval = setInterval(fetchTaoPrice, 300000);
+    const priceInterval = setInterval(fetchTaoPrice, CONFIG.priceRefreshInterval);
+    // New snapshots are recorded at most once per block
+    const snapshotsInterval = onDefault ? setInterval(fetchSnapshots, CONFIG.snapshotRefreshInterval) : undefined;
     return () => {
-      clearInterval(interval);
       clearInterval(priceInterval);
+      clearInterval(snapshotsInterval);
+    };
+  }, [fetchData, deploymentId, onDefault]);
+
+  // Live updates: the server polls upstream once and pushes a payload only when
+  // the block changes. Reconnects with backoff when the stream drops.
+  useEffect(() => {
+    // Without EventSource (old browsers) fall back to polling; failed polls
+    // show up in the degraded banner like any other fetch
+    if (typeof EventSource === 'undefined') {
+      setLiveStatus('polling');
+      const interval = setInterval(fetchData, CONFIG.refreshInterval);
+      return () => clearInterval(interval);
+    }
+
+    let source: EventSource | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let staleTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempt = 0;
+    let upstreamFailing = false;
+
+    const markAlive = () => {
+      if (!upstreamFailing) setLiveStatus('connected');
+      clearTimeout(staleTimer);
+      staleTimer = setTimeout(() => setLiveStatus('stale'), STALE_AFTER_MS);
     };
+
+    const connect = () => {
+      source = new EventSource(withDeployment('/api/stream', deploymentId, CONFIG));
+      source.onopen = () => {
+        attempt = 0;
+        markAlive();
+      };
+      source.addEventListener('weights', (event) => {
+        upstreamFailing = false;
+        markAlive();
+        try {
+          const data = validateWeightsData(JSON.parse((event as MessageEvent).data));
+          // Reconnects resend the current payload; skip re-parsing it
+          if (currentRef.current?.block !== data.block) applyWeights(data);
+        } catch (error) {
+          console.error('Error reading streamed weights:', error);
+          setError(error instanceof Error ? error.message : String(error));
+        }
+      });
+      source.addEventListener('upstream-error', () => {
+        upstreamFailing = true;
+        setLiveStatus('stale');
+      });
+      source.addEventListener('ping', markAlive);
+      source.onerror = () => {
+        source?.close();
+        clearTimeout(staleTimer);
+        setLiveStatus('disconnected');
+        retryTimer = setTimeout(connect, reconnectDelay(attempt++));
+      };
+    };
+
+    connect();
+    return () => {
+      source?.close();
+      clearTimeout(retryTimer);
+      clearTimeout(staleTimer);
+    };
+  }, [applyWeights, fetchData, deploymentId]);
+
+  // Emissions inputs and the watchlist are kept per browser
+  useEffect(() => {
+    try {
+      setEmissions(normalizeEmissionsConfig(JSON.parse(localStorage.getItem(EMISSIONS_STORAGE_KEY) || 'null')));
+      setWatchlist(parseWatchlist(JSON.parse(localStorage.getItem(WATCHLIST_STORAGE_KEY) || 'null')));
+    } catch (error) {
+      console.error('Error loading saved settings:', error);
+    }
   }, []);
 
+  const updateWatchlist = (list: Watchlist) => {
+    setWatchlist(list);
+    try {
+      localStorage.setItem(WATCHLIST_STORAGE_KEY, JSON.stringify(list));
+    } catch (error) {
+      console.error('Error saving watchlist:', error);
+    }
+  };
+
+  const updateEmissions = (config: EmissionsConfig) => {
+    setEmissions(config);
+    try {
+      localStorage.setItem(EMISSIONS_STORAGE_KEY, JSON.stringify(config));
+    } catch (error) {
+      console.error('Error saving emissions settings:', error);
+    }
+  };
+
+  useEffect(() => {
+    const query = serializeViewState({
+      search: searchQuery,
+      tab: selectedTab,
+      columns: visibleEnvs,
+      focus: focusEnv,
+      sort: sortField,
+      dir: sortDirection,
+      page,
+      size: pageSize,
+      score: scoreMode,
+      deployment: onDefault ? null : deploymentId,
+    });
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+  }, [router, pathname, searchQuery, selectedTab, visibleEnvs, focusEnv, sortField, sortDirection, page, pageSize, scoreMode, onDefault, deploymentId]);
+
+  const copyViewLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (error) {
+      console.error('Error copying link:', error);
+    }
+  };
+
+  // Downloads the rows currently shown across all pages, with filters and sort applied
+  const exportView = (format: ExportFormat) => {
+    setShowExportMenu(false);
+    if (!weightsData) return;
+    const blob = new Blob([buildExport(filteredAndSorted, weightsData, format)], { type: EXPORT_CONTENT_TYPES[format] });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = exportFileName(weightsData.block, format);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const toggleCompare = (uid: number) => {
+    setCompareUids(prev => prev.includes(uid)
+      ? prev.filter(u => u !== uid)
+      : prev.length < MAX_COMPARE ? [...prev, uid] : prev);
+  };
+
   const handleSort = (field: string) => {
+    setPage(1);
     if (sortField === field) {
       setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
     } else {
       setSortField(field);
       setSortDirection('desc');
+      // Sorting by anything else leaves environment focus mode
+      if (field !== `env:${focusEnv}`) setFocusEnv(null);
     }
   };
 
-  const sortData = (data: ModelRow[]) => {
-    return [...data].sort((a, b) => {
-      let aVal: any = a[sortField as keyof ModelRow];
-      let bVal: any = b[sortField as keyof ModelRow];
-      
-      // Special handling for avgEnvScore to treat null as -Infinity (lowest value)
-      if (sortField === 'avgEnvScore') {
-        const aScore = aVal !== null ? aVal : -Infinity;
-        const bScore = bVal !== null ? bVal : -Infinity;
-        return sortDirection === 'asc' ? aScore - bScore : bScore - aScore;
-      }
-      
-      if (typeof aVal === 'string') aVal = aVal.toLowerCase();
-      if (typeof bVal === 'string') bVal = bVal.toLowerCase();
-      
-      if (aVal === undefined || aVal === null) aVal = 0;
-      if (bVal === undefined || bVal === null) bVal = 0;
-      
-      if (typeof aVal === 'number' && typeof bVal === 'number') {
-        return sortDirection === 'asc' ? aVal - bVal : bVal - aVal;
-      }
-      
-      return sortDirection === 'asc' 
-        ? String(aVal).localeCompare(String(bVal))
-        : String(bVal).localeCompare(String(aVal));
-    });
+  const toggleEnvColumn = (env: string) => {
+    setVisibleEnvs(prev => prev.includes(env) ? prev.filter(e => e !== env) : [...prev, env]);
   };
 
-  const filterData = (data: ModelRow[]) => {
-    let filtered = data;
-    
-    // Apply search filter
-    if (searchQuery) {
-      filtered = filtered.filter(item => 
-        item.model.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        item.hotkey.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        item.uid.toString().includes(searchQuery)
-      );
-    }
-    
-    // Apply tab filter
-    if (selectedTab === 'eligible') {
-      filtered = filtered.filter(item => item.eligible);
+  // Rank miners by a single environment and highlight its winner
+  const handleFocus = (env: string | null) => {
+    setFocusEnv(env);
+    setPage(1);
+    setSortDirection('desc');
+    if (env) {
+      setVisibleEnvs(prev => prev.includes(env) ? prev : [...prev, env]);
+      setSortField(`env:${env}`);
+    } else {
+      setSortField('weight');
     }
-    
-    return filtered;
   };
 
-  const filteredAndSorted = sortData(filterData(models));
+  // Watched miners stay on top whatever the sort
+  const filteredAndSorted = pinWatched(
+    sortModels(
+      filterModels(models, {
+        search: searchQuery,
+        tab: selectedTab,
+        filter: advancedFilter,
+        currentBlock: weightsData?.block || 0,
+        blockTimeSeconds: emissions.blockTimeSeconds,
+      }),
+      sortField,
+      sortDirection,
+      scoreMode
+    ),
+    watchlist
+  );
+  const activeFilterCount = countActiveFilters(advancedFilter);
+
+  // A page past the end (e.g. after filtering) shows the last page instead
+  const totalPages = pageSize > 0 ? Math.max(1, Math.ceil(filteredAndSorted.length / pageSize)) : 1;
+  const currentPage = Math.min(page, totalPages);
+  const pageOffset = pageSize > 0 ? (currentPage - 1) * pageSize : 0;
+  const pageRows = pageSize > 0
+    ? filteredAndSorted.slice(pageOffset, pageOffset + pageSize)
+    : filteredAndSorted;
 
   // Get stats
   const stats = weightsData?.data.stats || {
@@ -233,6 +594,21 @@ export default function AffineDashboard() {
   };
 
   const totalWeight = models.reduce((sum, m) => sum + m.weight, 0);
+  // Medals follow the weight rank across all miners, not the row's place after sorting and pinning
+  const weightRank = new Map(sortModels(models, 'weight', 'desc').map((m, i) => [m.uid, i + 1]));
+  const earningsFor = (weight: number) =>
+    estimateEarnings(totalWeight > 0 ? weight / totalWeight : 0, emissions, taoPrice);
+  const minerEmissions = estimateEarnings(1, emissions, taoPrice);
+  const onePercent = estimateEarnings(0.01, emissions, taoPrice);
+  const diffBase = replay ? replay.previous : previous;
+  const diff = diffBase ? diffSnapshots(diffBase.models, models) : null;
+  const envWinners = weightsData?.data.env_winners || {};
+  const watchSummary = summarizeWatchlist(models, watchlist, weightsData?.data.environments || [], envWinners);
+  const focusWinner = focusEnv
+    ? models.find(m => m.hotkey === envWinners[focusEnv])
+    : undefined;
+  // Per visible environment, the miners whose interval overlaps the leader's
+  const envTies = new Map(visibleEnvs.map(env => [env, tiedWithLeader(models, env)]));
 
   if (isLoading && !weightsData) {
     return (
@@ -256,17 +632,45 @@ export default function AffineDashboard() {
                 AFFINE
               </h1>
               <p className="text-sm text-gray-600 dark:text-gray-400 mt-1 flex items-center space-x-2">
-                <span>Bittensor Subnet 120</span>
+                <span>Bittensor Subnet {deployment.subnetId}</span>
                 <span>•</span>
-                <span className="flex items-center space-x-1">
-                  <Activity size={14} className="text-green-500 animate-pulse" />
-                  <span className="text-green-600 dark:text-green-400 font-semibold">LIVE</span>
+                <span className="flex items-center space-x-1" title={LIVE_INDICATOR[liveStatus].title}>
+                  <Activity size={14} className={LIVE_INDICATOR[liveStatus].icon} />
+                  <span className={`${LIVE_INDICATOR[liveStatus].text} font-semibold`}>{LIVE_INDICATOR[liveStatus].label}</span>
                 </span>
               </p>
             </div>
             <div className="flex items-center space-x-6">
+              {CONFIG.deployments.length > 1 && (
+                <label
+                  className="flex items-center space-x-1 text-sm text-gray-600 dark:text-gray-400"
+                  title={deployment.rpcEndpoint ? `RPC: ${deployment.rpcEndpoint}` : 'Deployment'}
+                >
+                  <Network size={16} />
+                  <select
+                    value={deploymentId}
+                    onChange={(e) => switchDeployment(e.target.value)}
+                    aria-label="Deployment"
+                    className="bg-transparent border border-gray-300 dark:border-gray-600 rounded-lg px-2 py-1 focus:ring-2 focus:ring-blue-500"
+                  >
+                    {CONFIG.deployments.map(d => (
+                      <option key={d.id} value={d.id}>{d.label}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              <Link
+                href={withDeployment('/lineage', deploymentId, CONFIG)}
+                className="flex items-center space-x-1 text-sm text-gray-600 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400"
+                title="Model lineage and duplicate revisions"
+              >
+                <GitFork size={16} />
+                <span>Lineage</span>
+              </Link>
               <div className="text-right">
-                <p className="text-xs text-gray-500 dark:text-gray-400">Block</p>
+                <p className={`text-xs ${replay ? 'text-purple-600 dark:text-purple-400 font-semibold' : 'text-gray-500 dark:text-gray-400'}`}>
+                  {replay ? 'Replaying Block' : 'Block'}
+                </p>
                 <p className="text-lg font-bold font-mono">#{weightsData?.block.toLocaleString()}</p>
               </div>
               <div className="text-right">
@@ -289,8 +693,65 @@ export default function AffineDashboard() {
       </header>
 
       <div className="max-w-full mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {(error || degraded) && (
+          <div
+            className={`border rounded-xl p-4 mb-8 flex items-start space-x-3 ${
+              weightsData
+                ? 'bg-yellow-50 dark:bg-yellow-900/20 border-yellow-200 dark:border-yellow-800 text-yellow-800 dark:text-yellow-300'
+                : 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800 text-red-800 dark:text-red-300'
+            }`}
+          >
+            {fromCache ? <WifiOff size={20} className="shrink-0 mt-0.5" /> : <AlertTriangle size={20} className="shrink-0 mt-0.5" />}
+            <div className="flex-1 min-w-0">
+              <p className="font-semibold">
+                {!weightsData
+                  ? 'Could not load weights data'
+                  : replay
+                    ? 'Could not load snapshot'
+                    : fromCache
+                      ? 'Offline: showing the last saved snapshot'
+                      : 'Live data may be out of date'}
+              </p>
+              {error && <p className="text-sm break-words">{error}</p>}
+              {degraded && (
+                <p className="text-sm">
+                  {weightsData && lastUpdate && (
+                    <span>
+                      Last successful update {formatAge(now - lastUpdate.getTime())} ago (block #{weightsData.block.toLocaleString()}).{' '}
+                    </span>
+                  )}
+                  {retryAt !== null
+                    ? `Retrying in ${formatAge(retryAt - now)}.`
+                    : liveStatus === 'disconnected'
+                      ? 'Reconnecting to the live stream...'
+                      : liveStatus === 'stale'
+                        ? 'Waiting for upstream to recover.'
+                        : null}
+                </p>
+              )}
+            </div>
+            {!replay && (
+              <button
+                onClick={fetchData}
+                disabled={isLoading}
+                className="shrink-0 px-3 py-1 rounded-lg text-sm font-medium border border-current hover:bg-white/50 dark:hover:bg-gray-800/50 transition disabled:opacity-50"
+              >
+                Retry now
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Time Travel */}
+        <TimeTravel
+          snapshots={snapshots}
+          selectedBlock={replayBlock}
+          onSelect={setReplayBlock}
+          loading={replayBlock !== null && replay?.data.block !== replayBlock}
+        />
+
         {/* Stats Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
@@ -326,7 +787,7 @@ export default function AffineDashboard() {
               </div>
             </div>
             <div className="mt-2 flex items-center text-sm text-gray-600 dark:text-gray-400">
-              <span>{((stats.eligible_count / stats.total_miners) * 100).toFixed(1)}% of total</span>
+              <span>{stats.total_miners > 0 ? ((stats.eligible_count / stats.total_miners) * 100).toFixed(1) : '0.0'}% of total</span>
             </div>
           </motion.div>
 
@@ -349,8 +810,49 @@ export default function AffineDashboard() {
               <span>Ready to serve</span>
             </div>
           </motion.div>
+
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.3 }}
+            className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 border border-yellow-200 dark:border-yellow-800"
+          >
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mb-1">Est. Miner Emissions / Day</p>
+                <p className="text-3xl font-bold">
+                  {minerEmissions.usdPerDay !== null
+                    ? `$${Math.round(minerEmissions.usdPerDay).toLocaleString()}`
+                    : `τ${minerEmissions.taoPerDay.toFixed(2)}`}
+                </p>
+              </div>
+              <button
+                onClick={() => setShowEmissionsSettings(!showEmissionsSettings)}
+                className="p-3 bg-yellow-100 dark:bg-yellow-900/30 rounded-lg hover:bg-yellow-200 dark:hover:bg-yellow-900/50 transition"
+                title="Emissions model settings"
+              >
+                {showEmissionsSettings
+                  ? <Settings className="text-yellow-600 dark:text-yellow-400" size={28} />
+                  : <Coins className="text-yellow-600 dark:text-yellow-400" size={28} />}
+              </button>
+            </div>
+            <div className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+              <span>
+                τ{minerEmissions.taoPerDay.toFixed(2)} · {blocksPerDay(emissions).toLocaleString()} blocks/day ·
+                1% weight ≈ {onePercent.usdPerDay !== null
+                  ? `$${onePercent.usdPerDay.toFixed(2)}`
+                  : `τ${onePercent.taoPerDay.toFixed(4)}`}/day
+              </span>
+            </div>
+            {showEmissionsSettings && (
+              <EmissionsSettings config={emissions} onChange={updateEmissions} />
+            )}
+          </motion.div>
         </div>
 
+        {/* Watchlist */}
+        <WatchlistCard list={watchlist} summary={watchSummary} onChange={updateWatchlist} />
+
         {/* Environments Info */}
         {weightsData?.data.environments && (
           <motion.div
@@ -367,30 +869,151 @@ export default function AffineDashboard() {
                 </h3>
                 <div className="flex flex-wrap gap-2 mt-3">
                   {weightsData.data.environments.map(env => (
-                    <span key={env} className="px-3 py-1 bg-white/20 backdrop-blur-sm rounded-full text-sm font-medium">
-                      {env.split(':')[1] || env}
-                    </span>
+                    <button
+                      key={env}
+                      onClick={() => toggleEnvColumn(env)}
+                      title={visibleEnvs.includes(env) ? 'Hide score column' : 'Show score column'}
+                      className={`px-3 py-1 backdrop-blur-sm rounded-full text-sm font-medium transition ${
+                        visibleEnvs.includes(env)
+                          ? 'bg-white text-purple-700'
+                          : 'bg-white/20 hover:bg-white/30'
+                      }`}
+                    >
+                      {envLabel(env)}
+                    </button>
                   ))}
                 </div>
+                <p className="text-xs opacity-80 mt-2">
+                  {focusEnv && focusWinner
+                    ? `${envLabel(focusEnv)} winner: UID ${focusWinner.uid} (${focusWinner.model})`
+                    : 'Click an environment to toggle its score column'}
+                </p>
+                <p className="text-xs opacity-80 mt-1">
+                  * leading score in the environment (the env winner) · ± 95% Wilson interval from the sample count · ≈ statistically tied with the leader
+                </p>
               </div>
-              <div className="text-right">
+              <div className="text-right space-y-2">
                 <div className="bg-white/20 backdrop-blur-sm rounded-lg px-4 py-3">
                   <p className="text-xs opacity-80 mb-1">Environments</p>
                   <p className="text-2xl font-bold">{weightsData.data.environments.length}</p>
                 </div>
+                <select
+                  value={focusEnv ?? ''}
+                  onChange={(e) => handleFocus(e.target.value || null)}
+                  className="bg-white/20 backdrop-blur-sm rounded-lg px-3 py-2 text-sm font-medium outline-none"
+                  title="Rank miners by a single environment"
+                >
+                  <option value="" className="text-gray-900">No focus</option>
+                  {weightsData.data.environments.map(env => (
+                    <option key={env} value={env} className="text-gray-900">
+                      Focus: {envLabel(env)}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={scoreMode}
+                  onChange={(e) => { setScoreMode(e.target.value as ScoreMode); setPage(1); }}
+                  className="block ml-auto bg-white/20 backdrop-blur-sm rounded-lg px-3 py-2 text-sm font-medium outline-none"
+                  title="Rank environment scores by their mean or by the lower bound of the 95% interval"
+                >
+                  <option value="mean" className="text-gray-900">Rank: Mean score</option>
+                  <option value="lower" className="text-gray-900">Rank: Lower bound</option>
+                </select>
               </div>
             </div>
           </motion.div>
         )}
 
+        {/* Charts */}
+        {weightsData && (
+          <div className="mb-8">
+            <button
+              onClick={() => setShowCharts(!showCharts)}
+              className="flex items-center space-x-2 text-lg font-semibold mb-4 hover:text-blue-600 dark:hover:text-blue-400 transition"
+            >
+              <BarChart3 size={20} />
+              <span>Charts</span>
+              <ChevronDown size={18} className={`transition-transform ${showCharts ? 'rotate-180' : ''}`} />
+              {filteredAndSorted.length !== models.length && (
+                <span className="text-sm font-normal text-gray-500 dark:text-gray-400">
+                  ({filteredAndSorted.length} of {models.length} miners)
+                </span>
+              )}
+            </button>
+            {showCharts && (
+              <ChartsSection
+                models={filteredAndSorted}
+                environments={weightsData.data.environments}
+                layers={layerColumns}
+              />
+            )}
+          </div>
+        )}
+
+        {/* Network health */}
+        {weightsData && (
+          <div className="mb-8">
+            <button
+              onClick={() => setShowHealth(!showHealth)}
+              className="flex items-center space-x-2 text-lg font-semibold mb-4 hover:text-blue-600 dark:hover:text-blue-400 transition"
+            >
+              <HeartPulse size={20} />
+              <span>Network Health</span>
+              <ChevronDown size={18} className={`transition-transform ${showHealth ? 'rotate-180' : ''}`} />
+            </button>
+            {showHealth && (
+              <NetworkHealthPanel
+                models={models}
+                envWinners={envWinners}
+                currentBlock={weightsData.block}
+                blockTimeSeconds={emissions.blockTimeSeconds}
+                history={onDefault ? healthHistory : null}
+              />
+            )}
+          </div>
+        )}
+
+        {/* What-if simulator */}
+        {weightsData && (
+          <div className="mb-8">
+            <button
+              onClick={() => setShowSimulator(!showSimulator)}
+              className="flex items-center space-x-2 text-lg font-semibold mb-4 hover:text-blue-600 dark:hover:text-blue-400 transition"
+            >
+              <FlaskConical size={20} />
+              <span>What-if Simulator</span>
+              <ChevronDown size={18} className={`transition-transform ${showSimulator ? 'rotate-180' : ''}`} />
+            </button>
+            {showSimulator && (
+              <SimulatorPanel
+                models={models}
+                environments={weightsData.data.environments}
+                layers={layerColumns}
+                envWinners={envWinners}
+              />
+            )}
+          </div>
+        )}
+
+        {/* Block-to-block Changes, beside the leaderboard on wide screens */}
+        {diff && diffBase && weightsData && (
+          <ChangesPanel
+            fromBlock={diffBase.block}
+            toBlock={weightsData.block}
+            dropped={diff.dropped}
+            newCount={Array.from(diff.changes.values()).filter(c => c.isNew).length}
+            deploymentId={deploymentId}
+          />
+        )}
+
         {/* Models Leaderboard */}
-        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700">
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700 flow-root">
           {/* Tabs and Search */}
           <div className="border-b border-gray-200 dark:border-gray-700 p-6">
             <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between space-y-4 sm:space-y-0 mb-4">
               <div className="flex space-x-2">
                 <button
-                  onClick={() => setSelectedTab('all')}
+                  onClick={() => { setSelectedTab('all'); setPage(1); }}
                   className={`px-4 py-2 rounded-lg font-medium transition ${
                     selectedTab === 'all'
                       ? 'bg-blue-600 text-white'
@@ -400,7 +1023,7 @@ export default function AffineDashboard() {
                   All Models ({models.length})
                 </button>
                 <button
-                  onClick={() => setSelectedTab('eligible')}
+                  onClick={() => { setSelectedTab('eligible'); setPage(1); }}
                   className={`px-4 py-2 rounded-lg font-medium transition ${
                     selectedTab === 'eligible'
                       ? 'bg-green-600 text-white'
@@ -413,21 +1036,98 @@ export default function AffineDashboard() {
                   </div>
                 </button>
               </div>
-              <div className="relative">
-                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={18} />
-                <input
-                  type="text"
-                  placeholder="Search models..."
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  className="pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none w-full sm:w-64"
-                />
+              <div className="flex items-center space-x-2">
+                <div className="relative flex-1">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={18} />
+                  <input
+                    type="text"
+                    placeholder="Search models..."
+                    value={searchQuery}
+                    onChange={(e) => { setSearchQuery(e.target.value); setPage(1); }}
+                    className="pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none w-full sm:w-64"
+                  />
+                </div>
+                <button
+                  onClick={() => setShowFilters(!showFilters)}
+                  className={`flex items-center space-x-1 px-3 py-2 border rounded-lg transition ${
+                    activeFilterCount > 0
+                      ? 'border-blue-500 text-blue-600 dark:text-blue-400'
+                      : 'border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700'
+                  }`}
+                  title="Advanced filters"
+                >
+                  <SlidersHorizontal size={18} />
+                  <span className="text-sm">Filters{activeFilterCount > 0 && ` (${activeFilterCount})`}</span>
+                </button>
+                <div className="relative">
+                  <button
+                    onClick={() => setShowExportMenu(!showExportMenu)}
+                    disabled={!weightsData}
+                    className="p-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition disabled:opacity-50"
+                    title="Export this view"
+                  >
+                    <Download size={18} />
+                  </button>
+                  {showExportMenu && (
+                    <div className="absolute right-0 mt-2 w-32 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg z-10 overflow-hidden">
+                      {EXPORT_FORMATS.map(format => (
+                        <button
+                          key={format}
+                          onClick={() => exportView(format)}
+                          className="block w-full px-4 py-2 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-700"
+                        >
+                          {format.toUpperCase()}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <button
+                  onClick={copyViewLink}
+                  className="p-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition"
+                  title="Copy link to this view"
+                >
+                  {linkCopied ? <Check size={18} className="text-green-600" /> : <Link2 size={18} />}
+                </button>
               </div>
             </div>
+            {showFilters && weightsData && (
+              <FilterPanel
+                filter={advancedFilter}
+                onChange={(filter) => { setAdvancedFilter(filter); setPage(1); }}
+                environments={weightsData.data.environments}
+                layers={layerColumns}
+              />
+            )}
             <div className="flex items-center justify-between text-sm text-gray-600 dark:text-gray-400">
-              <span>Last updated: {lastUpdate.toLocaleTimeString()}</span>
+              <span>Last updated: {lastUpdate ? lastUpdate.toLocaleTimeString() : 'never'}</span>
               <span>{filteredAndSorted.length} models</span>
             </div>
+            {compareUids.length > 0 && (
+              <div className="mt-4 flex items-center justify-between bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg px-4 py-2 text-sm">
+                <span>
+                  Comparing UID {compareUids.join(', ')}
+                  {compareUids.length < 2 && <span className="text-gray-500 dark:text-gray-400"> · select at least one more</span>}
+                </span>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => setCompareUids([])}
+                    className="px-3 py-1 rounded-lg text-gray-600 dark:text-gray-300 hover:bg-blue-100 dark:hover:bg-blue-900/30 transition"
+                  >
+                    Clear
+                  </button>
+                  {compareUids.length >= 2 && (
+                    <Link
+                      href={withDeployment(`/compare?uids=${compareUids.join(',')}`, deploymentId, CONFIG)}
+                      className="px-3 py-1 rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition flex items-center space-x-1"
+                    >
+                      <GitCompare size={14} />
+                      <span>Compare</span>
+                    </Link>
+                  )}
+                </div>
+              </div>
+            )}
           </div>
 
           {/* Table */}
@@ -435,6 +1135,9 @@ export default function AffineDashboard() {
             <table className="w-full">
               <thead className="bg-gray-50 dark:bg-gray-900/50">
                 <tr>
+                  <th className="pl-6 py-4" title={`Select up to ${MAX_COMPARE} miners to compare`}>
+                    <GitCompare size={14} className="text-gray-500 dark:text-gray-400" />
+                  </th>
                   <th className="px-6 py-4 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                     <button onClick={() => handleSort('uid')} className="flex items-center space-x-1 hover:text-gray-700 dark:hover:text-gray-300">
                       <span>UID</span>
@@ -465,6 +1168,14 @@ export default function AffineDashboard() {
                       <ArrowUpDown size={14} />
                     </button>
                   </th>
+                  {visibleEnvs.map(env => (
+                    <th key={env} className="px-6 py-4 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      <button onClick={() => handleSort(`env:${env}`)} className="flex items-center space-x-1 hover:text-gray-700 dark:hover:text-gray-300">
+                        <span>{envLabel(env)}</span>
+                        <ArrowUpDown size={14} />
+                      </button>
+                    </th>
+                  ))}
                   <th className="px-6 py-4 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                     Layer Scores
                   </th>
@@ -474,6 +1185,12 @@ export default function AffineDashboard() {
                       <ArrowUpDown size={14} />
                     </button>
                   </th>
+                  <th className="px-6 py-4 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    <button onClick={() => handleSort('earnings')} className="flex items-center space-x-1 hover:text-gray-700 dark:hover:text-gray-300">
+                      <span>Est. / Day</span>
+                      <ArrowUpDown size={14} />
+                    </button>
+                  </th>
                   <th className="px-6 py-4 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                     Status
                   </th>
@@ -483,138 +1200,297 @@ export default function AffineDashboard() {
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
-                {filteredAndSorted.slice(0, 50).map((model, index) => (
-                  <motion.tr
-                    key={model.uid}
-                    initial={{ opacity: 0 }}
-                    animate={{ opacity: 1 }}
-                    transition={{ delay: Math.min(index * 0.01, 0.5) }}
-                    className="hover:bg-gray-50 dark:hover:bg-gray-700/50 transition"
-                  >
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="flex items-center">
-                        {index < 3 && model.weight > 0 && (
-                          <Award 
-                            size={18} 
-                            className={`mr-2 ${
-                              index === 0 ? 'text-yellow-500' : 
-                              index === 1 ? 'text-gray-400' : 
-                              'text-orange-600'
-                            }`} 
-                          />
-                        )}
-                        <span className="text-sm font-bold">{model.uid}</span>
-                      </div>
-                    </td>
-                    <td className="px-6 py-4">
-                      <div className="max-w-xs">
-                        <div className="font-medium text-gray-900 dark:text-gray-100 truncate">
-                          {model.model}
+                {pageRows.map((model, pageIndex) => {
+                  const change = diff?.changes.get(model.uid);
+                  const rank = weightRank.get(model.uid) ?? Infinity;
+                  const earnings = earningsFor(model.weight);
+                  return (
+                    <motion.tr
+                      key={model.uid}
+                      initial={{ opacity: 0 }}
+                      animate={{ opacity: 1 }}
+                      transition={{ delay: Math.min(pageIndex * 0.01, 0.5) }}
+                      className={`hover:bg-gray-50 dark:hover:bg-gray-700/50 transition ${
+                        focusWinner?.uid === model.uid ? 'bg-yellow-50 dark:bg-yellow-900/20' : ''
+                      }`}
+                    >
+                      <td className="pl-6 py-4">
+                        <input
+                          type="checkbox"
+                          checked={compareUids.includes(model.uid)}
+                          disabled={!compareUids.includes(model.uid) && compareUids.length >= MAX_COMPARE}
+                          onChange={() => toggleCompare(model.uid)}
+                          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500 disabled:opacity-40"
+                          aria-label={`Compare UID ${model.uid}`}
+                        />
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center">
+                          {rank <= 3 && model.weight > 0 && (
+                            <Award 
+                              size={18} 
+                              className={`mr-2 ${
+                                rank === 1 ? 'text-yellow-500' : 
+                                rank === 2 ? 'text-gray-400' : 
+                                'text-orange-600'
+                              }`} 
+                            />
+                          )}
+                          <button
+                            onClick={() => updateWatchlist(toggleWatch(watchlist, model))}
+                            className="mr-2"
+                            title={isWatched(model, watchlist) ? 'Remove from my miners' : 'Add to my miners'}
+                          >
+                            <Star
+                              size={14}
+                              className={isWatched(model, watchlist) ? 'text-yellow-500 fill-yellow-500' : 'text-gray-300 dark:text-gray-600 hover:text-yellow-500'}
+                            />
+                          </button>
+                          <Link href={withDeployment(`/miner/${model.uid}`, deploymentId, CONFIG)} className="text-sm font-bold hover:text-blue-600 dark:hover:text-blue-400">
+                            {model.uid}
+                          </Link>
+                          {change && change.rankDelta !== null && change.rankDelta !== 0 && (
+                            <span
+                              className={`ml-2 text-xs font-semibold ${
+                                change.rankDelta > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+                              }`}
+                              title="Weight rank change since the previous block"
+                            >
+                              {change.rankDelta > 0 ? `▲${change.rankDelta}` : `▼${-change.rankDelta}`}
+                            </span>
+                          )}
                         </div>
-                        <div className="text-xs text-gray-500 dark:text-gray-400 font-mono">
-                          {model.revision.substring(0, 8)}
+                      </td>
+                      <td className="px-6 py-4">
+                        <div className="max-w-xs">
+                          <Link
+                            href={withDeployment(`/miner/${model.uid}`, deploymentId, CONFIG)}
+                            className="block font-medium text-gray-900 dark:text-gray-100 truncate hover:text-blue-600 dark:hover:text-blue-400"
+                          >
+                            {model.model}
+                          </Link>
+                          <div className="text-xs text-gray-500 dark:text-gray-400 font-mono flex items-center space-x-2">
+                            <span>{model.revision.substring(0, 8)}</span>
+                            {change?.isNew && (
+                              <span
+                                className="px-1.5 rounded bg-emerald-100 dark:bg-emerald-900/30 text-emerald-800 dark:text-emerald-400 font-sans font-semibold"
+                                title={change.hotkeySwapped ? 'New hotkey on an existing UID' : 'Newly registered UID'}
+                              >
+                                {change.hotkeySwapped ? 'NEW HOTKEY' : 'NEW'}
+                              </span>
+                            )}
+                          </div>
                         </div>
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="flex items-center">
-                        <code className="text-xs bg-gray-100 dark:bg-gray-900 px-2 py-1 rounded font-mono">
-                          {model.hotkey.substring(0, 12)}...
-                        </code>
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="flex items-center">
-                        <span className="text-sm font-bold text-blue-600 dark:text-blue-400">
-                          {model.totalPoints}
-                        </span>
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="flex items-center">
-                        {model.avgEnvScore !== null ? (
-                          <span className="text-sm font-semibold text-purple-600 dark:text-purple-400">
-                            {model.avgEnvScore.toFixed(2)}%
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center">
+                          <code className="text-xs bg-gray-100 dark:bg-gray-900 px-2 py-1 rounded font-mono">
+                            {model.hotkey.substring(0, 12)}...
+                          </code>
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center">
+                          <span className="text-sm font-bold text-blue-600 dark:text-blue-400">
+                            {model.totalPoints}
                           </span>
-                        ) : (
-                          <span className="text-sm text-gray-400 dark:text-gray-500">
-                            N/A
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center">
+                          {model.avgEnvScore !== null ? (
+                            scoreMode === 'lower' ? (
+                              <div title="Average of the environments' 95% lower bounds">
+                                <p className="text-sm font-semibold text-purple-600 dark:text-purple-400">
+                                  ≥{avgLowerBound(model)?.toFixed(2)}%
+                                </p>
+                                <p className="text-xs text-gray-500 dark:text-gray-400">mean {model.avgEnvScore.toFixed(2)}%</p>
+                              </div>
+                            ) : (
+                              <span className="text-sm font-semibold text-purple-600 dark:text-purple-400">
+                                {model.avgEnvScore.toFixed(2)}%
+                              </span>
+                            )
+                          ) : (
+                            <span className="text-sm text-gray-400 dark:text-gray-500">
+                              N/A
+                            </span>
+                          )}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center">
+                          <span className="text-sm font-semibold text-orange-600 dark:text-orange-400">
+                            {model.totalSamples.toLocaleString()}
                           </span>
-                        )}
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="flex items-center">
-                        <span className="text-sm font-semibold text-orange-600 dark:text-orange-400">
-                          {model.totalSamples.toLocaleString()}
-                        </span>
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="flex items-center space-x-1 text-xs">
-                        {Object.entries(model.layerPoints).map(([layer, points]) => (
-                          points > 0 && (
-                            <span 
-                              key={layer}
-                              className="px-2 py-1 bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-400 rounded"
-                              title={`${layer}: ${points}`}
+                        </div>
+                      </td>
+                      {visibleEnvs.map(env => {
+                        const score = parseEnvCell(model.environments[env]);
+                        const interval = envInterval(model.environments[env]);
+                        const ties = envTies.get(env);
+                        return (
+                          <td key={env} className="px-6 py-4 whitespace-nowrap">
+                            <div className="flex items-center space-x-1">
+                              {score.accuracy !== null ? (
+                                <span
+                                  className="text-sm font-semibold text-purple-600 dark:text-purple-400"
+                                  title={interval
+                                    ? `95% CI ${interval.lower.toFixed(2)}–${interval.upper.toFixed(2)}% over ${score.samples.toLocaleString()} samples`
+                                    : 'No sample count, interval unknown'}
+                                >
+                                  {scoreMode === 'lower'
+                                    ? `≥${(interval?.lower ?? 0).toFixed(2)}%`
+                                    : `${score.accuracy.toFixed(2)}%`}
+                                  {score.marked && <span className="text-yellow-500">*</span>}
+                                  <span className="ml-1 text-xs font-normal text-gray-500 dark:text-gray-400">
+                                    {scoreMode === 'lower'
+                                      ? `mean ${score.accuracy.toFixed(2)}`
+                                      : interval && `±${((interval.upper - interval.lower) / 2).toFixed(2)}`}
+                                  </span>
+                                </span>
+                              ) : (
+                                <span className="text-sm text-gray-400 dark:text-gray-500">
+                                  N/A
+                                </span>
+                              )}
+                              {envWinners[env] === model.hotkey && (
+                                <span title={`${envLabel(env)} winner`}>
+                                  <Trophy size={14} className="text-yellow-500" />
+                                </span>
+                              )}
+                              {ties && ties.size > 1 && ties.has(model.uid) && (
+                                <span
+                                  className="px-1 rounded text-xs font-medium bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-400"
+                                  title="Statistically tied with the leader: the 95% intervals overlap"
+                                >
+                                  ≈
+                                </span>
+                              )}
+                            </div>
+                          </td>
+                        );
+                      })}
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center space-x-1 text-xs">
+                          {Object.entries(model.layerPoints).map(([layer, points]) => (
+                            points > 0 && (
+                              <span 
+                                key={layer}
+                                className="px-2 py-1 bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-400 rounded"
+                                title={`${layer}: ${points}`}
+                              >
+                                {layer}: {points}
+                              </span>
+                            )
+                          ))}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center">
+                          <div className="w-20 bg-gray-200 dark:bg-gray-700 rounded-full h-2 mr-2">
+                            <div 
+                              className="bg-gradient-to-r from-blue-500 to-purple-500 h-2 rounded-full" 
+                              style={{ width: `${Math.min((model.weight / (totalWeight / models.length)) * 100, 100)}%` }}
+                            />
+                          </div>
+                          <span className="text-sm font-medium">{(model.weight * 100).toFixed(2)}%</span>
+                          {change && !change.isNew && change.weightDelta !== 0 && (
+                            <span
+                              className={`ml-2 text-xs ${
+                                change.weightDelta > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+                              }`}
                             >
-                              {layer}: {points}
+                              {change.weightDelta > 0 ? '+' : ''}{(change.weightDelta * 100).toFixed(2)}%
                             </span>
-                          )
-                        ))}
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="flex items-center">
-                        <div className="w-20 bg-gray-200 dark:bg-gray-700 rounded-full h-2 mr-2">
-                          <div 
-                            className="bg-gradient-to-r from-blue-500 to-purple-500 h-2 rounded-full" 
-                            style={{ width: `${Math.min((model.weight / (totalWeight / models.length)) * 100, 100)}%` }}
-                          />
+                          )}
                         </div>
-                        <span className="text-sm font-medium">{(model.weight * 100).toFixed(2)}%</span>
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="flex items-center space-x-2">
-                        {model.eligible ? (
-                          <span className="px-2 py-1 rounded-full text-xs font-medium bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-400 flex items-center space-x-1">
-                            <CheckCircle size={12} />
-                            <span>Eligible</span>
-                          </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        {model.weight > 0 ? (
+                          <div title={`${earnings.alphaPerTempo.toFixed(4)} α per tempo · ${earnings.alphaPerDay.toFixed(2)} α per day`}>
+                            <p className="text-sm font-semibold text-yellow-700 dark:text-yellow-400">
+                              {earnings.usdPerDay !== null ? `$${earnings.usdPerDay.toFixed(2)}` : '—'}
+                            </p>
+                            <p className="text-xs text-gray-500 dark:text-gray-400">τ{earnings.taoPerDay.toFixed(4)}</p>
+                          </div>
                         ) : (
-                          <span className="px-2 py-1 rounded-full text-xs font-medium bg-gray-100 dark:bg-gray-900/30 text-gray-800 dark:text-gray-400">
-                            Not Eligible
-                          </span>
+                          <span className="text-sm text-gray-400 dark:text-gray-500">—</span>
                         )}
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="flex items-center space-x-2">
-                        <Clock size={14} className="text-blue-500" />
-                        <span className="text-sm font-mono text-gray-900 dark:text-gray-100">
-                          {(() => {
-                            const currentBlock = weightsData?.block || 0;
-                            const blockDiff = currentBlock - model.firstBlock;
-                            const days = ((blockDiff * 12) / 86400).toFixed(2);
-                            return `${days} days`;
-                          })()}
-                        </span>
-                      </div>
-                    </td>
-                  </motion.tr>
-                ))}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center space-x-2">
+                          {model.eligible ? (
+                            <span className="px-2 py-1 rounded-full text-xs font-medium bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-400 flex items-center space-x-1">
+                              <CheckCircle size={12} />
+                              <span>Eligible</span>
+                            </span>
+                          ) : (
+                            <span className="px-2 py-1 rounded-full text-xs font-medium bg-gray-100 dark:bg-gray-900/30 text-gray-800 dark:text-gray-400">
+                              Not Eligible
+                            </span>
+                          )}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center space-x-2">
+                          <Clock size={14} className="text-blue-500" />
+                          <span className="text-sm font-mono text-gray-900 dark:text-gray-100">
+                            {ageInDays(model.firstBlock, weightsData?.block || 0, emissions.blockTimeSeconds).toFixed(2)} days
+                          </span>
+                        </div>
+                      </td>
+                    </motion.tr>
+                  );
+                })}
               </tbody>
             </table>
+            {filteredAndSorted.length === 0 && (
+              models.length === 0 ? (
+                <div className="px-6 py-12 text-center">
+                  <Inbox className="mx-auto mb-3 text-gray-400" size={40} />
+                  <p className="text-lg font-semibold mb-1">
+                    {weightsData ? 'Upstream returned no miners' : 'No weights data yet'}
+                  </p>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    {weightsData
+                      ? `The payload for block #${weightsData.block.toLocaleString()} has no rows.`
+                      : 'The leaderboard fills in once the first payload arrives.'}
+                  </p>
+                </div>
+              ) : (
+                <div className="px-6 py-12 text-center">
+                  <SearchX className="mx-auto mb-3 text-gray-400" size={40} />
+                  <p className="text-lg font-semibold mb-1">No miners match your filters</p>
+                  <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+                    All {models.length} miners are hidden by the search, tab or advanced filters.
+                  </p>
+                  <button
+                    onClick={() => {
+                      setSearchQuery('');
+                      setSelectedTab('all');
+                      setAdvancedFilter(EMPTY_FILTER);
+                      setPage(1);
+                    }}
+                    className="px-4 py-2 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 transition"
+                  >
+                    Clear filters
+                  </button>
+                </div>
+              )
+            )}
           </div>
 
-          {/* Pagination Info */}
-          <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/50">
-            <div className="flex items-center justify-between">
-              <p className="text-sm text-gray-600 dark:text-gray-400">
-                Showing {Math.min(50, filteredAndSorted.length)} of {filteredAndSorted.length} models
-              </p>
+          {/* Pagination */}
+          <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/50 space-y-3">
+            <Pagination
+              page={currentPage}
+              pageSize={pageSize}
+              total={filteredAndSorted.length}
+              onPageChange={setPage}
+              onPageSizeChange={(size) => { setPageSize(size); setPage(1); }}
+            />
+            <div className="flex justify-end">
               <a 
                 href="https://dashboard.affine.io/" 
                 target="_blank" 
@@ -632,13 +1508,30 @@ export default function AffineDashboard() {
       {/* Footer */}
       <footer className="mt-12 pb-8 text-center text-sm text-gray-600 dark:text-gray-400">
         <p>
-          Bittensor Affine Subnet (SN120) · Data from{' '}
-          <a href="https://dashboard.affine.io/api/weights" target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">
-            dashboard.affine.io/api/weights
-          </a>
-          {' '}· Auto-refreshes every 10 seconds
+          Bittensor Affine Subnet (SN{deployment.subnetId}) · Data from{' '}
+          {/* The mainnet URL can be overridden server-side, which the browser never sees */}
+          {deploymentId === MAINNET_ID ? (
+            <a href="https://dashboard.affine.io/api/weights" target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">
+              dashboard.affine.io/api/weights
+            </a>
+          ) : (
+            <span className="font-semibold">{deployment.label}</span>
+          )}
+          {' '}·{' '}
+          {liveStatus === 'polling'
+            ? `Refreshes every ${CONFIG.refreshInterval / 1000} seconds (no live stream in this browser)`
+            : 'Live updates pushed as new blocks arrive'}
         </p>
       </footer>
     </div>
   );
 }
+
+// useSearchParams needs a Suspense boundary when the page is prerendered
+export default function Page() {
+  return (
+    <Suspense>
+      <AffineDashboard />
+    </Suspense>
+  );
+}
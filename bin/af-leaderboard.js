@@ -0,0 +1,11 @@
+#!/usr/bin/env node
+// Runs the TypeScript CLI in cli/ directly, without a separate build step.
+// The tsconfig is pinned so the '@/' imports resolve from any directory.
+const path = require('path');
+
+process.env.TSX_TSCONFIG_PATH = path.join(__dirname, '..', 'tsconfig.json');
+require('tsx/cjs');
+
+require('../cli/index.ts')
+  .run(process.argv.slice(2))
+  .then(code => { process.exitCode = code; });
@@ -0,0 +1,10 @@
+// Plain-text table with padded columns; numeric-looking cells are right-aligned
+export const formatTable = (headers: string[], rows: string[][]) => {
+  const widths = headers.map((h, i) => Math.max(h.length, ...rows.map(r => (r[i] ?? '').length)));
+  const numeric = headers.map((_, i) => rows.length > 0 && rows.every(r => /^[-+]?[\d.,%#]+$/.test(r[i] ?? '')));
+  const line = (cells: string[]) => cells
+    .map((cell, i) => numeric[i] ? cell.padStart(widths[i]) : cell.padEnd(widths[i]))
+    .join('  ')
+    .trimEnd();
+  return [line(headers), line(widths.map(w => '-'.repeat(w))), ...rows.map(line)].join('\n') + '\n';
+};
@@ -0,0 +1,233 @@
+import { writeFile } from 'fs/promises';
+import { parseArgs } from 'util';
+import { envLabel, parseEnvScore, parseModels, type ModelRow, type WeightsData } from '@/lib/weights';
+import { buildExport, isExportFormat } from '@/lib/export';
+import { DEFAULT_QUERY, SORT_FIELDS, filterModels, sortModels } from '@/lib/leaderboard';
+import { isWatched, parseWatchlist, watchlistSize } from '@/lib/watchlist';
+import type { ScoreMode } from '@/lib/view-state';
+import { formatTable } from './format';
+import { loadWeights, resolveSource } from './source';
+
+export const USAGE = `Usage: af-leaderboard <command> [options]
+
+Commands:
+  top        Print the leaderboard
+  watch      Print watched miners every time the block changes
+  snapshot   Save the validated weights payload as JSON
+
+Options:
+  --source <file|url>  Weights payload (default: the deployment's weights URL)
+  --deployment <id>    Deployment from $NEXT_PUBLIC_DEPLOYMENTS (default: mainnet)
+  --format <format>    top: table, json, csv or ndjson; watch: table or json
+
+top:
+  --env <name>         Rank by one environment, e.g. SAT or affine:SAT
+  --sort <field>       weight, uid, model, totalPoints, avgEnvScore, totalSamples,
+                       earnings or firstBlock (default: weight)
+  --asc                Sort ascending
+  --limit <n>          Rows to print, 0 for all (default: 20)
+  --eligible           Eligible miners only
+  --search <text>      Match model, hotkey or UID
+  --score <mode>       mean or lower (confidence lower bound)
+
+watch:
+  --hotkey <hotkey>    Miner to watch (repeatable)
+  --uid <uid>          Miner to watch (repeatable)
+  --interval <s>       Seconds between polls (default: 12)
+  --count <n>          Stop after n polls (default: run until interrupted)
+
+snapshot:
+  --out <file>         Write here instead of stdout
+`;
+
+export interface CliIO {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  sleep: (ms: number) => Promise<void>;
+}
+
+const processIO: CliIO = {
+  stdout: text => process.stdout.write(text),
+  stderr: text => process.stderr.write(text),
+  sleep: ms => new Promise(resolve => setTimeout(resolve, ms)),
+};
+
+// Bad arguments; exits 2 with the usage text instead of 1
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+const OPTIONS = {
+  source: { type: 'string' },
+  deployment: { type: 'string' },
+  format: { type: 'string' },
+  env: { type: 'string' },
+  sort: { type: 'string' },
+  asc: { type: 'boolean' },
+  limit: { type: 'string' },
+  eligible: { type: 'boolean' },
+  search: { type: 'string' },
+  score: { type: 'string' },
+  hotkey: { type: 'string', multiple: true },
+  uid: { type: 'string', multiple: true },
+  interval: { type: 'string' },
+  count: { type: 'string' },
+  out: { type: 'string' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+
+type Options = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>['values'];
+
+const nonNegativeInt = (name: string, value: string | undefined, fallback: number) => {
+  if (value === undefined) return fallback;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0) throw new UsageError(`--${name} must be a whole number, got "${value}"`);
+  return n;
+};
+
+// Accepts the full name or the short label, case-insensitively
+export const resolveEnv = (environments: string[], name: string) => {
+  const wanted = name.toLowerCase();
+  const env = environments.find(e => e.toLowerCase() === wanted || envLabel(e).toLowerCase() === wanted);
+  if (!env) throw new UsageError(`Unknown environment "${name}" (have: ${environments.map(envLabel).join(', ')})`);
+  return env;
+};
+
+const sourceFor = (options: Options) => {
+  const source = resolveSource(options.source, options.deployment);
+  if (!source) throw new UsageError(`Unknown deployment "${options.deployment}"`);
+  return source;
+};
+
+const percent = (value: number | null) => value === null ? '—' : `${value.toFixed(2)}%`;
+
+// Table rows for `top` and `watch`; rank is by weight across the whole field
+const rowsTable = (rows: ModelRow[], all: ModelRow[], env: string | null) => {
+  const rankByUid = new Map(sortModels(all, 'weight', 'desc').map((m, i) => [m.uid, i + 1]));
+  const headers = ['Rank', 'UID', 'Model', 'Weight', 'Points', 'Avg Score', ...(env ? [envLabel(env)] : []), 'Eligible'];
+  return formatTable(headers, rows.map(m => [
+    `#${rankByUid.get(m.uid)}`,
+    String(m.uid),
+    m.model,
+    percent(m.weight * 100),
+    String(m.totalPoints),
+    percent(m.avgEnvScore),
+    ...(env ? [percent(parseEnvScore(m.environments[env]))] : []),
+    m.eligible ? 'Y' : 'N',
+  ]));
+};
+
+const top = async (options: Options, io: CliIO) => {
+  const format = options.format ?? 'table';
+  if (format !== 'table' && !isExportFormat(format)) throw new UsageError(`Unknown format "${format}"`);
+  const score = (options.score ?? 'mean') as ScoreMode;
+  if (score !== 'mean' && score !== 'lower') throw new UsageError(`--score must be mean or lower, got "${score}"`);
+  const limit = nonNegativeInt('limit', options.limit, 20);
+  if (options.sort !== undefined && !SORT_FIELDS.includes(options.sort)) {
+    throw new UsageError(`Unknown sort field "${options.sort}" (have: ${SORT_FIELDS.join(', ')}; use --env for an environment)`);
+  }
+
+  const data = await loadWeights(sourceFor(options));
+  const models = parseModels(data);
+  const env = options.env ? resolveEnv(data.data.environments, options.env) : null;
+  const field = env ? `env:${env}` : options.sort ?? 'weight';
+
+  const filtered = filterModels(models, {
+    ...DEFAULT_QUERY,
+    search: options.search ?? '',
+    tab: options.eligible ? 'eligible' : 'all',
+    currentBlock: data.block,
+  });
+  const sorted = sortModels(filtered, field, options.asc ? 'asc' : 'desc', score);
+  const rows = limit > 0 ? sorted.slice(0, limit) : sorted;
+
+  if (format === 'table') {
+    io.stdout(`Block #${data.block}  ·  ${rows.length} of ${models.length} miners\n\n`);
+    io.stdout(rowsTable(rows, models, env));
+  } else {
+    const output = buildExport(rows, data, format);
+    io.stdout(output.endsWith('\n') ? output : `${output}\n`);
+  }
+};
+
+const watch = async (options: Options, io: CliIO) => {
+  const format = options.format ?? 'table';
+  if (format !== 'table' && format !== 'json') throw new UsageError(`watch supports table or json, got "${format}"`);
+  const list = parseWatchlist({
+    hotkeys: options.hotkey ?? [],
+    uids: (options.uid ?? []).map(Number),
+  });
+  if (watchlistSize(list) === 0) throw new UsageError('watch needs at least one --hotkey or --uid');
+  const interval = nonNegativeInt('interval', options.interval, 12);
+  const count = nonNegativeInt('count', options.count, 0);
+  const source = sourceFor(options);
+
+  let lastBlock: number | null = null;
+  for (let poll = 1; count === 0 || poll <= count; poll++) {
+    let data: WeightsData | null = null;
+    try {
+      data = await loadWeights(source);
+    } catch (error) {
+      // A failed poll is reported and retried on the next one
+      io.stderr(`Error loading weights: ${error instanceof Error ? error.message : String(error)}\n`);
+    }
+    if (data && data.block !== lastBlock) {
+      lastBlock = data.block;
+      const models = parseModels(data);
+      const watched = models.filter(m => isWatched(m, list));
+      if (format === 'json') {
+        io.stdout(JSON.stringify({ block: data.block, timestamp: data.timestamp, miners: watched }) + '\n');
+      } else {
+        io.stdout(`Block #${data.block}  ·  ${new Date(data.timestamp * 1000).toISOString()}\n`);
+        io.stdout(watched.length > 0 ? rowsTable(watched, models, null) : 'No watched miners registered\n');
+        io.stdout('\n');
+      }
+    }
+    if (count === 0 || poll < count) await io.sleep(interval * 1000);
+  }
+};
+
+const snapshot = async (options: Options, io: CliIO) => {
+  const data = await loadWeights(sourceFor(options));
+  const json = JSON.stringify(data, null, 2) + '\n';
+  if (options.out) {
+    await writeFile(options.out, json);
+    io.stderr(`Saved block #${data.block} to ${options.out}\n`);
+  } else {
+    io.stdout(json);
+  }
+};
+
+const COMMANDS: Record<string, (options: Options, io: CliIO) => Promise<void>> = { top, watch, snapshot };
+
+// Returns the exit code: 0 on success, 1 on a failed run, 2 on bad usage
+export const run = async (argv: string[], io: CliIO = processIO) => {
+  try {
+    const { values, positionals } = (() => {
+      try {
+        return parseArgs({ args: argv, options: OPTIONS, allowPositionals: true });
+      } catch (error) {
+        throw new UsageError(error instanceof Error ? error.message : String(error));
+      }
+    })();
+    const [command, ...extra] = positionals;
+    if (values.help || !command) {
+      io.stdout(USAGE);
+      return values.help ? 0 : 2;
+    }
+    if (!COMMANDS[command]) throw new UsageError(`Unknown command "${command}"`);
+    if (extra.length > 0) throw new UsageError(`Unexpected argument "${extra[0]}"`);
+    await COMMANDS[command](values, io);
+    return 0;
+  } catch (error) {
+    if (error instanceof UsageError) {
+      io.stderr(`${error.message}\n\n${USAGE}`);
+      return 2;
+    }
+    io.stderr(`${error instanceof Error ? error.message : String(error)}\n`);
+    return 1;
+  }
+};
@@ -0,0 +1,24 @@
+import { readFile } from 'fs/promises';
+import { dashboardConfig, findDeployment } from '@/lib/config';
+import { validateWeightsData, type WeightsData } from '@/lib/weights';
+
+// Where to read the weights payload from: a URL, or a local file so scripts
+// and tests can run offline. Without one, the deployment's upstream URL; null
+// when the deployment id is unknown.
+export const resolveSource = (source: string | undefined, deployment: string | undefined) =>
+  source || findDeployment(dashboardConfig(), deployment ?? null)?.weightsUrl || null;
+
+const isUrl = (source: string) => /^https?:\/\//i.test(source);
+
+export const loadWeights = async (source: string): Promise<WeightsData> => {
+  let raw: unknown;
+  if (isUrl(source)) {
+    const response = await fetch(source, { headers: { Accept: 'application/json' } });
+    if (!response.ok) throw new Error(`${source} responded with ${response.status}`);
+    raw = await response.json();
+  } else {
+    raw = JSON.parse(await readFile(source, 'utf8'));
+  }
+  // Same check as the dashboard: a drifted payload is an error, not zeros
+  return validateWeightsData(raw);
+};
@@ -0,0 +1,72 @@
+'use client';
+
+import Link from 'next/link';
+import { GitCompare, UserMinus, UserX } from 'lucide-react';
+import { dashboardConfig, withDeployment } from '@/lib/config';
+import type { DroppedMiner } from '@/lib/weights';
+
+interface ChangesPanelProps {
+  fromBlock: number;
+  toBlock: number;
+  dropped: DroppedMiner[];
+  newCount: number;
+  // Carried into the miner links
+  deploymentId: string;
+}
+
+const CONFIG = dashboardConfig();
+
+const REASON_LABELS: Record<DroppedMiner['reason'], string> = {
+  'deregistered': 'Deregistered',
+  'replaced': 'Hotkey replaced',
+  'lost-eligibility': 'Lost eligibility',
+};
+
+// Miners that left the field or stopped being eligible between two blocks
+export default function ChangesPanel({ fromBlock, toBlock, dropped, newCount, deploymentId }: ChangesPanelProps) {
+  return (
+    <aside className="bg-white dark:bg-gray-800 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700 mb-6 xl:mb-0 xl:ml-6 xl:w-80 xl:float-right">
+      <div className="border-b border-gray-200 dark:border-gray-700 p-6">
+        <h3 className="text-lg font-semibold flex items-center">
+          <GitCompare className="mr-2" size={20} />
+          Since Last Block
+        </h3>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 font-mono">
+          #{fromBlock.toLocaleString()} → #{toBlock.toLocaleString()}
+        </p>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mt-2">
+          {newCount} new · {dropped.length} dropped
+        </p>
+      </div>
+      {dropped.length === 0 ? (
+        <p className="p-6 text-sm text-gray-500 dark:text-gray-400">No miners dropped out or lost eligibility.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {dropped.map(miner => (
+            <li key={`${miner.uid}-${miner.hotkey}`} className="px-6 py-3">
+              <div className="flex items-center justify-between">
+                <Link href={withDeployment(`/miner/${miner.uid}`, deploymentId, CONFIG)} className="text-sm font-bold hover:text-blue-600 dark:hover:text-blue-400">
+                  UID {miner.uid}
+                </Link>
+                <span
+                  className={`px-2 py-0.5 rounded-full text-xs font-medium flex items-center space-x-1 ${
+                    miner.reason === 'lost-eligibility'
+                      ? 'bg-orange-100 dark:bg-orange-900/30 text-orange-800 dark:text-orange-400'
+                      : 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-400'
+                  }`}
+                >
+                  {miner.reason === 'lost-eligibility' ? <UserMinus size={12} /> : <UserX size={12} />}
+                  <span>{REASON_LABELS[miner.reason]}</span>
+                </span>
+              </div>
+              <p className="text-sm text-gray-700 dark:text-gray-300 truncate mt-1">{miner.model}</p>
+              <code className="text-xs text-gray-500 dark:text-gray-400 font-mono">
+                {miner.hotkey.substring(0, 12)}...
+              </code>
+            </li>
+          ))}
+        </ul>
+      )}
+    </aside>
+  );
+}
@@ -0,0 +1,190 @@
+'use client';
+
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Scatter,
+  ScatterChart,
+  Tooltip,
+  XAxis,
+  YAxis,
+  ZAxis
+} from 'recharts';
+import { envLabel, parseEnvScore, type ModelRow } from '@/lib/weights';
+import { boxStats, giniCoefficient, histogram, lorenzCurve } from '@/lib/charts';
+
+interface ChartsSectionProps {
+  // Rows after search, tab and advanced filters
+  models: ModelRow[];
+  environments: string[];
+  layers: string[];
+  topN?: number;
+}
+
+const HISTOGRAM_BINS = 10;
+const LAYER_COLORS = ['#2563eb', '#7c3aed', '#db2777', '#ea580c', '#ca8a04', '#16a34a', '#0891b2', '#64748b'];
+
+const tooltipStyle = {
+  backgroundColor: 'rgba(31, 41, 55, 0.95)',
+  border: 'none',
+  borderRadius: '0.5rem',
+  color: '#f9fafb',
+  fontSize: '0.75rem',
+};
+
+function ChartCard({ title, subtitle, children }: { title: string; subtitle?: string; children: React.ReactNode }) {
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 border border-gray-200 dark:border-gray-700">
+      <div className="flex items-baseline justify-between mb-4">
+        <h3 className="text-lg font-semibold">{title}</h3>
+        {subtitle && <span className="text-sm text-gray-500 dark:text-gray-400">{subtitle}</span>}
+      </div>
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          {children as React.ReactElement}
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
+
+export default function ChartsSection({ models, environments, layers, topN = 10 }: ChartsSectionProps) {
+  if (models.length === 0) {
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-12 text-center border border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-400">
+        No miners match the current filters
+      </div>
+    );
+  }
+
+  const weights = models.map(m => m.weight * 100);
+  const weightBins = histogram(weights, HISTOGRAM_BINS).map(bin => ({
+    range: `${bin.start.toFixed(1)}–${bin.end.toFixed(1)}`,
+    count: bin.count,
+  }));
+  const lorenz = lorenzCurve(weights).map(p => ({
+    population: +(p.population * 100).toFixed(2),
+    share: +(p.share * 100).toFixed(2),
+    equality: +(p.population * 100).toFixed(2),
+  }));
+  const gini = giniCoefficient(weights);
+
+  const scatter = models
+    .filter(m => m.avgEnvScore !== null)
+    .map(m => ({ uid: m.uid, score: m.avgEnvScore, weight: m.weight * 100, eligible: m.eligible }));
+
+  // Stacked segments for a box plot: an invisible base up to the minimum, then
+  // whisker, lower box, upper box, whisker
+  const boxes = environments.flatMap(env => {
+    const stats = boxStats(models
+      .map(m => parseEnvScore(m.environments[env]))
+      .filter((s): s is number => s !== null));
+    return stats ? [{
+      env: envLabel(env),
+      base: stats.min,
+      lowerWhisker: stats.q1 - stats.min,
+      lowerBox: stats.median - stats.q1,
+      upperBox: stats.q3 - stats.median,
+      upperWhisker: stats.max - stats.q3,
+      stats,
+    }] : [];
+  });
+
+  const top = [...models]
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, topN)
+    .map(m => ({ uid: String(m.uid), ...m.layerPoints }));
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <ChartCard title="Weight Distribution" subtitle={`${models.length} miners`}>
+        <BarChart data={weightBins}>
+          <CartesianGrid strokeDasharray="3 3" opacity={0.3} />
+          <XAxis dataKey="range" tick={{ fontSize: 10 }} label={{ value: 'Weight %', position: 'insideBottom', offset: -2, fontSize: 11 }} />
+          <YAxis allowDecimals={false} tick={{ fontSize: 11 }} />
+          <Tooltip contentStyle={tooltipStyle} formatter={(value) => [value, 'Miners']} labelFormatter={(label) => `${label}%`} />
+          <Bar dataKey="count" fill="#2563eb" radius={[4, 4, 0, 0]} />
+        </BarChart>
+      </ChartCard>
+
+      <ChartCard title="Lorenz Curve" subtitle={`Gini ${gini.toFixed(3)}`}>
+        <LineChart data={lorenz}>
+          <CartesianGrid strokeDasharray="3 3" opacity={0.3} />
+          <XAxis dataKey="population" type="number" domain={[0, 100]} unit="%" tick={{ fontSize: 11 }} />
+          <YAxis domain={[0, 100]} unit="%" tick={{ fontSize: 11 }} />
+          <Tooltip
+            contentStyle={tooltipStyle}
+            labelFormatter={(label) => `Bottom ${label}% of miners`}
+            formatter={(value, name) => [`${value}%`, name === 'share' ? 'Weight held' : 'Equal split']}
+          />
+          <Line dataKey="equality" stroke="#9ca3af" strokeDasharray="4 4" dot={false} isAnimationActive={false} />
+          <Line dataKey="share" stroke="#7c3aed" strokeWidth={2} dot={false} />
+        </LineChart>
+      </ChartCard>
+
+      <ChartCard title="Avg Env Score vs Weight" subtitle={`${scatter.length} scored`}>
+        <ScatterChart>
+          <CartesianGrid strokeDasharray="3 3" opacity={0.3} />
+          <XAxis dataKey="score" type="number" name="Avg score" unit="%" domain={['auto', 'auto']} tick={{ fontSize: 11 }} />
+          <YAxis dataKey="weight" type="number" name="Weight" unit="%" tick={{ fontSize: 11 }} />
+          <ZAxis dataKey="uid" name="UID" range={[40, 40]} />
+          <Tooltip contentStyle={tooltipStyle} cursor={{ strokeDasharray: '3 3' }} />
+          <Legend />
+          <Scatter name="Eligible" data={scatter.filter(p => p.eligible)} fill="#16a34a" />
+          <Scatter name="Not eligible" data={scatter.filter(p => !p.eligible)} fill="#9ca3af" />
+        </ScatterChart>
+      </ChartCard>
+
+      <ChartCard title="Environment Scores" subtitle="min · quartiles · max">
+        <BarChart data={boxes}>
+          <CartesianGrid strokeDasharray="3 3" opacity={0.3} />
+          <XAxis dataKey="env" tick={{ fontSize: 11 }} />
+          <YAxis domain={[0, 100]} unit="%" tick={{ fontSize: 11 }} />
+          <Tooltip
+            contentStyle={tooltipStyle}
+            content={({ active, payload }) => {
+              const box = active && payload?.[0]?.payload;
+              if (!box) return null;
+              const { stats } = box;
+              return (
+                <div style={tooltipStyle} className="p-2">
+                  <p className="font-semibold">{box.env} ({stats.count} miners)</p>
+                  <p>Max {stats.max.toFixed(2)}%</p>
+                  <p>Q3 {stats.q3.toFixed(2)}%</p>
+                  <p>Median {stats.median.toFixed(2)}%</p>
+                  <p>Q1 {stats.q1.toFixed(2)}%</p>
+                  <p>Min {stats.min.toFixed(2)}%</p>
+                </div>
+              );
+            }}
+          />
+          <Bar dataKey="base" stackId="box" fill="transparent" />
+          <Bar dataKey="lowerWhisker" stackId="box" fill="#ddd6fe" />
+          <Bar dataKey="lowerBox" stackId="box" fill="#8b5cf6" />
+          <Bar dataKey="upperBox" stackId="box" fill="#6d28d9" />
+          <Bar dataKey="upperWhisker" stackId="box" fill="#ddd6fe" />
+        </BarChart>
+      </ChartCard>
+
+      <div className="lg:col-span-2">
+        <ChartCard title="Layer Points" subtitle={`Top ${top.length} by weight`}>
+          <BarChart data={top}>
+            <CartesianGrid strokeDasharray="3 3" opacity={0.3} />
+            <XAxis dataKey="uid" tick={{ fontSize: 11 }} label={{ value: 'UID', position: 'insideBottom', offset: -2, fontSize: 11 }} />
+            <YAxis allowDecimals={false} tick={{ fontSize: 11 }} />
+            <Tooltip contentStyle={tooltipStyle} labelFormatter={(label) => `UID ${label}`} />
+            <Legend />
+            {layers.map((layer, i) => (
+              <Bar key={layer} dataKey={layer} stackId="layers" fill={LAYER_COLORS[i % LAYER_COLORS.length]} />
+            ))}
+          </BarChart>
+        </ChartCard>
+      </div>
+    </div>
+  );
+}
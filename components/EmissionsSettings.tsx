@@ -0,0 +1,51 @@
+'use client';
+
+import { RotateCcw } from 'lucide-react';
+import { DEFAULT_EMISSIONS, normalizeEmissionsConfig, type EmissionsConfig } from '@/lib/emissions';
+
+interface EmissionsSettingsProps {
+  config: EmissionsConfig;
+  onChange: (config: EmissionsConfig) => void;
+}
+
+const FIELDS: { key: keyof EmissionsConfig; label: string; step: number; scale?: number }[] = [
+  { key: 'emissionPerBlock', label: 'Subnet emission (α / block)', step: 0.01 },
+  { key: 'minerShare', label: 'Miner share (%)', step: 1, scale: 100 },
+  { key: 'alphaPriceTao', label: 'Alpha price (τ)', step: 0.001 },
+  { key: 'blockTimeSeconds', label: 'Block time (s)', step: 1 },
+  { key: 'tempoBlocks', label: 'Tempo (blocks)', step: 1 },
+];
+
+export default function EmissionsSettings({ config, onChange }: EmissionsSettingsProps) {
+  const update = (key: keyof EmissionsConfig, value: string, scale = 1) => {
+    const n = parseFloat(value);
+    if (isNaN(n)) return;
+    // Out-of-range values (e.g. a zero block time) fall back to the default
+    onChange(normalizeEmissionsConfig({ ...config, [key]: n / scale }));
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700 space-y-2">
+      {FIELDS.map(({ key, label, step, scale = 1 }) => (
+        <label key={key} className="flex items-center justify-between text-sm space-x-2">
+          <span className="text-gray-600 dark:text-gray-400">{label}</span>
+          <input
+            type="number"
+            min={0}
+            step={step}
+            value={+(config[key] * scale).toFixed(6)}
+            onChange={(e) => update(key, e.target.value, scale)}
+            className="w-24 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-right outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </label>
+      ))}
+      <button
+        onClick={() => onChange(DEFAULT_EMISSIONS)}
+        className="flex items-center space-x-1 text-xs text-gray-500 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400"
+      >
+        <RotateCcw size={12} />
+        <span>Reset to defaults</span>
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Save, Trash2, X } from 'lucide-react';
+import { envLabel } from '@/lib/weights';
+import {
+  EMPTY_FILTER,
+  compileModelMatch,
+  countActiveFilters,
+  parseFilter,
+  type AdvancedFilter,
+  type ModelMatchMode,
+  type NumericRange
+} from '@/lib/filters';
+
+const PRESETS_STORAGE_KEY = 'af-leaderboard:filter-presets';
+
+interface FilterPreset {
+  name: string;
+  filter: AdvancedFilter;
+}
+
+interface FilterPanelProps {
+  filter: AdvancedFilter;
+  onChange: (filter: AdvancedFilter) => void;
+  environments: string[];
+  layers: string[];
+}
+
+// Entries that no longer parse (hand-edited, or from an older version) are dropped
+const loadPresets = (): FilterPreset[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PRESETS_STORAGE_KEY) || '[]');
+    if (!Array.isArray(stored)) return [];
+    return stored.flatMap(entry => {
+      const filter = parseFilter(entry?.filter);
+      return typeof entry?.name === 'string' && filter ? [{ name: entry.name, filter }] : [];
+    });
+  } catch {
+    return [];
+  }
+};
+
+const parseBound = (value: string) => value.trim() === '' || isNaN(Number(value)) ? undefined : Number(value);
+
+const inputClass = 'w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm outline-none focus:ring-2 focus:ring-blue-500';
+
+// `scale` converts between the stored value and what the user types,
+// e.g. 100 to edit a 0-1 weight as a percentage
+function RangeInput({ label, range, onChange, scale = 1 }: {
+  label: string;
+  range: NumericRange;
+  onChange: (range: NumericRange) => void;
+  scale?: number;
+}) {
+  const shown = (value?: number) => value === undefined ? '' : String(+(value * scale).toFixed(6));
+  const stored = (value: string) => {
+    const bound = parseBound(value);
+    return bound === undefined ? undefined : bound / scale;
+  };
+
+  return (
+    <div>
+      <p className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">{label}</p>
+      <div className="flex items-center space-x-2">
+        <input
+          type="number"
+          placeholder="min"
+          value={shown(range.min)}
+          onChange={(e) => onChange({ ...range, min: stored(e.target.value) })}
+          className={inputClass}
+        />
+        <span className="text-gray-400">–</span>
+        <input
+          type="number"
+          placeholder="max"
+          value={shown(range.max)}
+          onChange={(e) => onChange({ ...range, max: stored(e.target.value) })}
+          className={inputClass}
+        />
+      </div>
+    </div>
+  );
+}
+
+export default function FilterPanel({ filter, onChange, environments, layers }: FilterPanelProps) {
+  const [presets, setPresets] = useState<FilterPreset[]>([]);
+  const [presetName, setPresetName] = useState('');
+
+  // localStorage is only available after mount
+  useEffect(() => {
+    setPresets(loadPresets());
+  }, []);
+
+  const updatePresets = (next: FilterPreset[]) => {
+    setPresets(next);
+    try {
+      localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(next));
+    } catch (error) {
+      console.error('Error saving filter presets:', error);
+    }
+  };
+
+  // Shared by the button and Enter: a preset needs a name and at least one filter
+  const canSave = presetName.trim() !== '' && countActiveFilters(filter) > 0;
+
+  const savePreset = () => {
+    if (!canSave) return;
+    const name = presetName.trim();
+    updatePresets([...presets.filter(p => p.name !== name), { name, filter }]);
+    setPresetName('');
+  };
+
+  const set = <K extends keyof AdvancedFilter>(key: K, value: AdvancedFilter[K]) =>
+    onChange({ ...filter, [key]: value });
+
+  const setEnvMinimum = (env: string, value: string) => {
+    const { [env]: _removed, ...rest } = filter.minEnvScores;
+    const bound = parseBound(value);
+    set('minEnvScores', bound === undefined ? rest : { ...rest, [env]: bound });
+  };
+
+  const toggleLayer = (layer: string) =>
+    set('layers', filter.layers.includes(layer)
+      ? filter.layers.filter(l => l !== layer)
+      : [...filter.layers, layer]);
+
+  const invalidPattern = filter.modelMatch !== '' &&
+    compileModelMatch(filter.modelMatch, filter.modelMatchMode) === null;
+
+  return (
+    <div className="mb-4 p-4 bg-gray-50 dark:bg-gray-900/50 rounded-lg border border-gray-200 dark:border-gray-700 space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+        <RangeInput label="Weight %" range={filter.weight} onChange={(r) => set('weight', r)} scale={100} />
+        <RangeInput label="Points" range={filter.totalPoints} onChange={(r) => set('totalPoints', r)} />
+        <RangeInput label="Avg Env Score" range={filter.avgEnvScore} onChange={(r) => set('avgEnvScore', r)} />
+        <RangeInput label="Total Samples" range={filter.totalSamples} onChange={(r) => set('totalSamples', r)} />
+        <RangeInput label="Age (Days)" range={filter.ageDays} onChange={(r) => set('ageDays', r)} />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <div>
+          <p className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">Min Env Score</p>
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+            {environments.map(env => (
+              <label key={env} className="flex items-center space-x-2 text-sm">
+                <span className="w-12 shrink-0 truncate" title={env}>{envLabel(env)}</span>
+                <input
+                  type="number"
+                  placeholder="—"
+                  value={filter.minEnvScores[env] ?? ''}
+                  onChange={(e) => setEnvMinimum(env, e.target.value)}
+                  className={inputClass}
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <p className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">Has Points In</p>
+          <div className="flex flex-wrap gap-2">
+            {layers.map(layer => (
+              <button
+                key={layer}
+                onClick={() => toggleLayer(layer)}
+                className={`px-3 py-1 rounded-full text-xs font-medium transition ${
+                  filter.layers.includes(layer)
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-300 dark:hover:bg-gray-600'
+                }`}
+              >
+                {layer}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <p className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">Model</p>
+          <div className="flex items-center space-x-2">
+            <select
+              value={filter.modelMatchMode}
+              onChange={(e) => set('modelMatchMode', e.target.value as ModelMatchMode)}
+              className={`${inputClass} w-auto`}
+            >
+              <option value="prefix">Starts with</option>
+              <option value="regex">Regex</option>
+            </select>
+            <input
+              type="text"
+              placeholder={filter.modelMatchMode === 'prefix' ? 'org/' : '^org/.*-8b'}
+              value={filter.modelMatch}
+              onChange={(e) => set('modelMatch', e.target.value)}
+              className={`${inputClass} font-mono ${invalidPattern ? 'border-red-500 focus:ring-red-500' : ''}`}
+            />
+          </div>
+          {invalidPattern && (
+            <p className="text-xs text-red-600 dark:text-red-400 mt-1">Invalid regular expression</p>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 pt-2 border-t border-gray-200 dark:border-gray-700">
+        <div className="flex flex-wrap items-center gap-2">
+          {presets.map(preset => (
+            <span key={preset.name} className="flex items-center bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-full text-sm">
+              <button
+                onClick={() => onChange(preset.filter)}
+                className="pl-3 pr-2 py-1 hover:text-blue-600 dark:hover:text-blue-400"
+                title="Apply preset"
+              >
+                {preset.name}
+              </button>
+              <button
+                onClick={() => updatePresets(presets.filter(p => p.name !== preset.name))}
+                className="pr-2 text-gray-400 hover:text-red-600"
+                title="Delete preset"
+              >
+                <Trash2 size={12} />
+              </button>
+            </span>
+          ))}
+          {presets.length === 0 && (
+            <span className="text-sm text-gray-500 dark:text-gray-400">No saved presets</span>
+          )}
+        </div>
+        <div className="flex items-center space-x-2">
+          <input
+            type="text"
+            placeholder="Preset name"
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && savePreset()}
+            className={`${inputClass} sm:w-40`}
+          />
+          <button
+            onClick={savePreset}
+            disabled={!canSave}
+            className="p-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition disabled:opacity-50"
+            title="Save current filters as a preset"
+          >
+            <Save size={16} />
+          </button>
+          <button
+            onClick={() => onChange(EMPTY_FILTER)}
+            className="p-2 rounded-lg bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 transition"
+            title="Clear all filters"
+          >
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
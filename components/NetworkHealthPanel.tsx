@@ -0,0 +1,166 @@
+'use client';
+
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import { envLabel, type ModelRow } from '@/lib/weights';
+import { ageDistribution, concentration, winnerHoldings } from '@/lib/health';
+import type { HealthPoint } from '@/lib/history';
+
+interface NetworkHealthPanelProps {
+  // Every registered miner; filters don't apply to network health
+  models: ModelRow[];
+  envWinners: Record<string, string>;
+  currentBlock: number;
+  blockTimeSeconds: number;
+  // Concentration per recorded block, oldest first; null when no history is kept
+  history: HealthPoint[] | null;
+}
+
+const tooltipStyle = {
+  backgroundColor: 'rgba(31, 41, 55, 0.95)',
+  border: 'none',
+  borderRadius: '0.5rem',
+  color: '#f9fafb',
+  fontSize: '0.75rem',
+};
+
+const percent = (share: number) => `${(share * 100).toFixed(1)}%`;
+
+function Metric({ label, value, detail }: { label: string; value: string; detail: string }) {
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-5 border border-gray-200 dark:border-gray-700">
+      <p className="text-sm text-gray-600 dark:text-gray-400">{label}</p>
+      <p className="text-2xl font-bold mt-1">{value}</p>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{detail}</p>
+    </div>
+  );
+}
+
+function Card({ title, subtitle, children }: { title: string; subtitle?: string; children: React.ReactNode }) {
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 border border-gray-200 dark:border-gray-700">
+      <div className="flex items-baseline justify-between mb-4">
+        <h3 className="text-lg font-semibold">{title}</h3>
+        {subtitle && <span className="text-sm text-gray-500 dark:text-gray-400">{subtitle}</span>}
+      </div>
+      {children}
+    </div>
+  );
+}
+
+export default function NetworkHealthPanel({ models, envWinners, currentBlock, blockTimeSeconds, history }: NetworkHealthPanelProps) {
+  const metrics = concentration(models);
+  const winners = winnerHoldings(models, envWinners);
+  const ages = ageDistribution(models, currentBlock, blockTimeSeconds);
+  const trend = (history ?? []).map(p => ({
+    block: p.block,
+    gini: +(p.gini * 100).toFixed(2),
+    top1: +(p.top1 * 100).toFixed(2),
+    top10: +(p.top10 * 100).toFixed(2),
+    nakamoto: p.nakamoto,
+  }));
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <Metric
+          label="Weight Gini"
+          value={metrics.gini.toFixed(3)}
+          detail="0 is an even split, 1 is one miner holding everything"
+        />
+        <Metric
+          label="Nakamoto Coefficient"
+          value={String(metrics.nakamoto)}
+          detail="Fewest UIDs holding more than half the weight"
+        />
+        <Metric
+          label="Top 1 / 5 / 10 Share"
+          value={`${percent(metrics.top1)} / ${percent(metrics.top5)} / ${percent(metrics.top10)}`}
+          detail="Weight held by the highest-weighted UIDs"
+        />
+        <Metric
+          label="Eligible With Weight"
+          value={metrics.eligible > 0 ? percent(metrics.eligibleWeighted / metrics.eligible) : '—'}
+          detail={`${metrics.eligibleWeighted} of ${metrics.eligible} eligible miners receive weight`}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card title="Environment Winners" subtitle={`${Object.keys(envWinners).length} environments`}>
+          {winners.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No environment winners reported</p>
+          ) : (
+            <ul className="space-y-3">
+              {winners.map(w => (
+                <li key={w.hotkey} className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="text-sm font-bold">{w.uid !== null ? `UID ${w.uid}` : 'Unregistered'}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate" title={w.model ?? w.hotkey}>
+                      {w.model ?? w.hotkey}
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap justify-end gap-1">
+                    {w.envs.map(env => (
+                      <span key={env} className="px-2 py-0.5 rounded-md text-xs font-medium bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300">
+                        {envLabel(env)}
+                      </span>
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Card>
+
+        <Card title="Miner Age" subtitle="since first commit">
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={ages}>
+                <CartesianGrid strokeDasharray="3 3" opacity={0.3} />
+                <XAxis dataKey="label" tick={{ fontSize: 11 }} />
+                <YAxis allowDecimals={false} tick={{ fontSize: 11 }} />
+                <Tooltip contentStyle={tooltipStyle} formatter={(value) => [value, 'Miners']} />
+                <Bar dataKey="count" fill="#0891b2" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </Card>
+      </div>
+
+      <Card title="Concentration Over Time" subtitle={history ? `${trend.length} snapshots` : undefined}>
+        {history === null ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">History is only recorded for the default deployment</p>
+        ) : trend.length < 2 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Trends appear once two or more snapshots are recorded</p>
+        ) : (
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={trend}>
+                <CartesianGrid strokeDasharray="3 3" opacity={0.3} />
+                <XAxis dataKey="block" tick={{ fontSize: 11 }} />
+                <YAxis yAxisId="share" domain={[0, 100]} unit="%" tick={{ fontSize: 11 }} />
+                <YAxis yAxisId="count" orientation="right" allowDecimals={false} tick={{ fontSize: 11 }} />
+                <Tooltip contentStyle={tooltipStyle} labelFormatter={(label) => `Block #${label}`} />
+                <Legend />
+                <Line yAxisId="share" dataKey="gini" name="Gini ×100" stroke="#2563eb" dot={false} />
+                <Line yAxisId="share" dataKey="top1" name="Top 1 share %" stroke="#db2777" dot={false} />
+                <Line yAxisId="share" dataKey="top10" name="Top 10 share %" stroke="#7c3aed" dot={false} />
+                <Line yAxisId="count" dataKey="nakamoto" name="Nakamoto" stroke="#16a34a" dot={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
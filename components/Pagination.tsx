@@ -0,0 +1,79 @@
+'use client';
+
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { PAGE_SIZES } from '@/lib/view-state';
+
+interface PaginationProps {
+  page: number;
+  pageSize: number;
+  total: number;
+  onPageChange: (page: number) => void;
+  onPageSizeChange: (size: number) => void;
+}
+
+// Page numbers to show: first, last, and a window around the current page,
+// with null marking a gap
+const pageWindow = (page: number, totalPages: number): (number | null)[] => {
+  const pages = new Set([1, totalPages, page - 1, page, page + 1]);
+  const sorted = Array.from(pages).filter(p => p >= 1 && p <= totalPages).sort((a, b) => a - b);
+  return sorted.flatMap((p, i) => (i > 0 && p - sorted[i - 1] > 1 ? [null, p] : [p]));
+};
+
+export default function Pagination({ page, pageSize, total, onPageChange, onPageSizeChange }: PaginationProps) {
+  const totalPages = pageSize > 0 ? Math.max(1, Math.ceil(total / pageSize)) : 1;
+  const first = total === 0 ? 0 : pageSize > 0 ? (page - 1) * pageSize + 1 : 1;
+  const last = pageSize > 0 ? Math.min(page * pageSize, total) : total;
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+      <div className="flex items-center space-x-3 text-sm text-gray-600 dark:text-gray-400">
+        <span>Showing {first}–{last} of {total} models</span>
+        <select
+          value={pageSize}
+          onChange={(e) => onPageSizeChange(parseInt(e.target.value))}
+          className="border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 px-2 py-1 text-sm outline-none focus:ring-2 focus:ring-blue-500"
+          title="Rows per page"
+        >
+          {PAGE_SIZES.map(size => (
+            <option key={size} value={size}>{size === 0 ? 'All' : `${size} / page`}</option>
+          ))}
+        </select>
+      </div>
+      {totalPages > 1 && (
+        <nav className="flex items-center space-x-1" aria-label="Pagination">
+          <button
+            onClick={() => onPageChange(page - 1)}
+            disabled={page <= 1}
+            className="p-1.5 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700 transition disabled:opacity-40"
+            title="Previous page"
+          >
+            <ChevronLeft size={16} />
+          </button>
+          {pageWindow(page, totalPages).map((p, i) => p === null ? (
+            <span key={`gap-${i}`} className="px-2 text-sm text-gray-400">…</span>
+          ) : (
+            <button
+              key={p}
+              onClick={() => onPageChange(p)}
+              className={`min-w-[2rem] px-2 py-1 rounded-lg text-sm font-medium transition ${
+                p === page
+                  ? 'bg-blue-600 text-white'
+                  : 'text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+              }`}
+            >
+              {p}
+            </button>
+          ))}
+          <button
+            onClick={() => onPageChange(page + 1)}
+            disabled={page >= totalPages}
+            className="p-1.5 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700 transition disabled:opacity-40"
+            title="Next page"
+          >
+            <ChevronRight size={16} />
+          </button>
+        </nav>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,280 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { CheckCircle, FlaskConical, Trophy } from 'lucide-react';
+import { envLabel, parseEnvCell, type ModelRow } from '@/lib/weights';
+import {
+  DEFAULT_MARGIN,
+  HYPOTHETICAL_UID,
+  eligibilityThresholds,
+  simulate,
+  type Hypothetical
+} from '@/lib/simulator';
+
+interface SimulatorPanelProps {
+  models: ModelRow[];
+  environments: string[];
+  // Layer columns from the header, e.g. L3-L8
+  layers: string[];
+  // Hotkey per environment, as published upstream
+  envWinners: Record<string, string>;
+}
+
+const inputClass = 'w-24 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-right text-sm outline-none focus:ring-2 focus:ring-blue-500';
+
+// Split contest awards can leave fractions of a point
+const formatPoints = (points: number) => Number.isInteger(points) ? String(points) : points.toFixed(2);
+
+const uidLabel = (uid: number | null | undefined) =>
+  uid === HYPOTHETICAL_UID ? 'Hypothetical' : uid === null || uid === undefined ? '—' : `UID ${uid}`;
+
+export default function SimulatorPanel({ models, environments, layers, envWinners }: SimulatorPanelProps) {
+  // Inputs are kept as typed so a half-entered number doesn't reset the field
+  const [scores, setScores] = useState<Record<string, string>>({});
+  const [samples, setSamples] = useState<Record<string, string>>({});
+  const [baseUid, setBaseUid] = useState<number | null>(null);
+  const [replace, setReplace] = useState(false);
+  const [margin, setMargin] = useState(DEFAULT_MARGIN);
+
+  const thresholds = useMemo(() => eligibilityThresholds(models, environments), [models, environments]);
+
+  const startFrom = (uid: number | null) => {
+    setBaseUid(uid);
+    const base = models.find(m => m.uid === uid);
+    if (!base) {
+      setScores({});
+      setSamples({});
+      return;
+    }
+    const cells = environments.map(env => [env, parseEnvCell(base.environments[env] || '')] as const);
+    setScores(Object.fromEntries(cells.map(([env, cell]) => [env, cell.accuracy === null ? '' : String(cell.accuracy)])));
+    setSamples(Object.fromEntries(cells.map(([env, cell]) => [env, cell.samples ? String(cell.samples) : ''])));
+  };
+
+  // Contesting every environment subset is expensive; the page re-renders every
+  // second while the degraded banner ticks
+  const result = useMemo(() => {
+    const hypothetical: Hypothetical = {
+      scores: Object.fromEntries(environments.map(env => {
+        const value = parseFloat(scores[env] ?? '');
+        return [env, isNaN(value) ? null : Math.min(Math.max(value, 0), 100)];
+      })),
+      // Blank sample counts assume just enough to be eligible
+      samples: Object.fromEntries(environments.map(env => {
+        const value = parseInt(samples[env] ?? '');
+        return [env, isNaN(value) ? thresholds[env] : value];
+      })),
+      replaceUid: replace ? baseUid : null,
+    };
+    const hasInput = Object.values(hypothetical.scores).some(s => s !== null);
+    return simulate(models, environments, layers, hasInput ? hypothetical : null, margin);
+  }, [models, environments, layers, scores, samples, replace, baseUid, thresholds, margin]);
+  const projected = result.miners.find(m => m.uid === HYPOTHETICAL_UID);
+  const rank = result.miners.findIndex(m => m.uid === HYPOTHETICAL_UID) + 1;
+  const uidByHotkey = new Map(models.map(m => [m.hotkey, m.uid]));
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 border border-gray-200 dark:border-gray-700">
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Each subset of environments is a contest won by the best mean accuracy; a later miner must beat the holder
+        by the margin. Each miner&apos;s current {layers.join('/')} points are split over the contests it wins, and
+        a contest&apos;s points move with it, so the unchanged field reproduces the table. Weight follows
+        points<sup>{result.curve.exponent.toFixed(2)}</sup>, fitted to the current field, across{' '}
+        {(result.curve.distributed * 100).toFixed(1)}% of the total weight. This is an estimate, not the validator&apos;s code.
+      </p>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <label className="flex items-center space-x-2">
+              <span className="text-gray-600 dark:text-gray-400">Start from</span>
+              <select
+                value={baseUid ?? ''}
+                onChange={(e) => startFrom(e.target.value === '' ? null : Number(e.target.value))}
+                className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">New miner</option>
+                {models.map(m => (
+                  <option key={m.uid} value={m.uid}>UID {m.uid}</option>
+                ))}
+              </select>
+            </label>
+            <label className={`flex items-center space-x-2 ${baseUid === null ? 'opacity-50' : ''}`}>
+              <input
+                type="checkbox"
+                checked={replace}
+                disabled={baseUid === null}
+                onChange={(e) => setReplace(e.target.checked)}
+                className="rounded"
+              />
+              <span>Replaces this miner</span>
+            </label>
+            <label className="flex items-center space-x-2">
+              <span className="text-gray-600 dark:text-gray-400">Margin</span>
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                value={margin}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  if (!isNaN(value) && value >= 0) setMargin(value);
+                }}
+                className={inputClass}
+              />
+            </label>
+          </div>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                <th className="py-2">Environment</th>
+                <th className="py-2 text-right">Accuracy %</th>
+                <th className="py-2 text-right">Samples</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {environments.map(env => (
+                <tr key={env}>
+                  <td className="py-2 font-medium">{envLabel(env)}</td>
+                  <td className="py-2 text-right">
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      step={0.01}
+                      placeholder="none"
+                      value={scores[env] ?? ''}
+                      onChange={(e) => setScores({ ...scores, [env]: e.target.value })}
+                      className={inputClass}
+                      aria-label={`${envLabel(env)} accuracy`}
+                    />
+                  </td>
+                  <td className="py-2 text-right">
+                    <input
+                      type="number"
+                      min={0}
+                      step={1}
+                      placeholder={String(thresholds[env])}
+                      value={samples[env] ?? ''}
+                      onChange={(e) => setSamples({ ...samples, [env]: e.target.value })}
+                      className={inputClass}
+                      aria-label={`${envLabel(env)} samples`}
+                      title={`Eligible miners have at least ${thresholds[env]} samples here`}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="space-y-4">
+          {projected ? (
+            <>
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">Projected Weight</p>
+                  <p className="text-2xl font-bold">{(projected.weight * 100).toFixed(2)}%</p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">Rank</p>
+                  <p className="text-2xl font-bold">#{rank} <span className="text-sm font-normal text-gray-500">of {result.miners.length}</span></p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">Eligible</p>
+                  {projected.eligible ? (
+                    <p className="text-2xl font-bold text-green-600 dark:text-green-400 flex items-center space-x-1">
+                      <CheckCircle size={20} />
+                      <span>Yes</span>
+                    </p>
+                  ) : (
+                    <p className="text-2xl font-bold text-gray-500" title="Needs a score and enough samples in every environment">No</p>
+                  )}
+                </div>
+              </div>
+              <div>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mb-1">
+                  Projected points: <span className="font-semibold text-gray-900 dark:text-gray-100">{formatPoints(projected.totalPoints)}</span>
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {layers.map(layer => (
+                    <span key={layer} className="px-2 py-1 rounded text-xs font-mono bg-gray-100 dark:bg-gray-700">
+                      {layer}: {formatPoints(projected.layerPoints[layer])}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Enter accuracies, or start from an existing miner, to project a hypothetical miner against the current field.
+            </p>
+          )}
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                <th className="py-2">Environment</th>
+                <th className="py-2">Current Winner</th>
+                <th className="py-2">Projected Winner</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {environments.map(env => {
+                const winner = result.envWinners[env];
+                const displaced = winner === HYPOTHETICAL_UID;
+                return (
+                  <tr key={env}>
+                    <td className="py-2 font-medium">{envLabel(env)}</td>
+                    <td className="py-2">{uidLabel(uidByHotkey.get(envWinners[env]))}</td>
+                    <td className="py-2">
+                      <span className={`inline-flex items-center space-x-1 ${displaced ? 'text-green-600 dark:text-green-400 font-semibold' : ''}`}>
+                        {displaced && <Trophy size={14} />}
+                        <span>{uidLabel(winner)}</span>
+                      </span>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="mt-6 overflow-x-auto">
+        <p className="text-sm font-semibold mb-2 flex items-center space-x-2">
+          <FlaskConical size={16} className="text-purple-600 dark:text-purple-400" />
+          <span>Projected Field</span>
+        </p>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+              <th className="py-2">Miner</th>
+              {layers.map(layer => <th key={layer} className="py-2 text-right">{layer}</th>)}
+              <th className="py-2 text-right">Points</th>
+              <th className="py-2 text-right">Projected Weight</th>
+              <th className="py-2 text-right">Actual Weight</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+            {result.miners.slice(0, 10).map(m => {
+              const actual = models.find(model => model.uid === m.uid);
+              return (
+                <tr key={m.uid} className={m.uid === HYPOTHETICAL_UID ? 'bg-purple-50 dark:bg-purple-900/20 font-semibold' : ''}>
+                  <td className="py-2">{uidLabel(m.uid)}</td>
+                  {layers.map(layer => <td key={layer} className="py-2 text-right font-mono">{formatPoints(m.layerPoints[layer])}</td>)}
+                  <td className="py-2 text-right font-mono">{formatPoints(m.totalPoints)}</td>
+                  <td className="py-2 text-right">{(m.weight * 100).toFixed(2)}%</td>
+                  <td className="py-2 text-right text-gray-500 dark:text-gray-400">
+                    {actual ? `${(actual.weight * 100).toFixed(2)}%` : '—'}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { History, Pause, Play, Radio, SkipBack, SkipForward } from 'lucide-react';
+import type { SnapshotMeta } from '@/lib/history';
+
+interface TimeTravelProps {
+  // Recorded snapshots, oldest first
+  snapshots: SnapshotMeta[];
+  // null while showing live data
+  selectedBlock: number | null;
+  onSelect: (block: number | null) => void;
+  // True while the selected snapshot is still being fetched
+  loading?: boolean;
+}
+
+const PLAY_INTERVAL_MS = 1000;
+
+export default function TimeTravel({ snapshots, selectedBlock, onSelect, loading = false }: TimeTravelProps) {
+  const [playing, setPlaying] = useState(false);
+
+  // The slider's last position stands for live data
+  const liveIndex = snapshots.length;
+  const foundIndex = snapshots.findIndex(s => s.block === selectedBlock);
+  const index = selectedBlock === null || foundIndex === -1 ? liveIndex : foundIndex;
+  const selected = snapshots[index];
+
+  const selectIndex = (i: number) => onSelect(i >= liveIndex ? null : snapshots[i].block);
+
+  // Playback stops on the last recorded snapshot rather than jumping to live
+  const nextBlock = index < liveIndex - 1 ? snapshots[index + 1].block : null;
+
+  // Advance one snapshot per tick, waiting for the previous one to load
+  useEffect(() => {
+    if (!playing || loading) return;
+    if (nextBlock === null) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => onSelect(nextBlock), PLAY_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [playing, loading, nextBlock, onSelect]);
+
+  const togglePlay = () => {
+    if (!playing && nextBlock === null) selectIndex(0);
+    setPlaying(!playing);
+  };
+
+  if (snapshots.length === 0) return null;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-4 mb-8 border border-gray-200 dark:border-gray-700">
+      <div className="flex flex-col md:flex-row md:items-center gap-4">
+        <div className="flex items-center space-x-2 shrink-0">
+          <History size={20} className="text-purple-600 dark:text-purple-400" />
+          <span className="font-semibold">Time Travel</span>
+        </div>
+
+        <div className="flex items-center space-x-1 shrink-0">
+          <button
+            onClick={() => { setPlaying(false); selectIndex(Math.max(index - 1, 0)); }}
+            disabled={index === 0}
+            className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition disabled:opacity-40"
+            title="Previous snapshot"
+          >
+            <SkipBack size={16} />
+          </button>
+          <button
+            onClick={togglePlay}
+            className="p-2 rounded-lg bg-purple-600 text-white hover:bg-purple-700 transition"
+            title={playing ? 'Pause' : 'Play through recorded snapshots'}
+          >
+            {playing ? <Pause size={16} /> : <Play size={16} />}
+          </button>
+          <button
+            onClick={() => { setPlaying(false); selectIndex(index + 1); }}
+            disabled={index >= liveIndex}
+            className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition disabled:opacity-40"
+            title="Next snapshot"
+          >
+            <SkipForward size={16} />
+          </button>
+        </div>
+
+        <input
+          type="range"
+          min={0}
+          max={liveIndex}
+          value={index}
+          onChange={(e) => { setPlaying(false); selectIndex(Number(e.target.value)); }}
+          className="flex-1 accent-purple-600"
+          aria-label="Snapshot"
+        />
+
+        <div className="flex items-center space-x-3 shrink-0 text-sm">
+          {selected ? (
+            <div className="text-right">
+              <p className="font-mono font-semibold">#{selected.block.toLocaleString()}</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {new Date(selected.timestamp * 1000).toLocaleString()}
+              </p>
+            </div>
+          ) : (
+            <span className="text-gray-500 dark:text-gray-400">{snapshots.length} snapshots recorded</span>
+          )}
+          <button
+            onClick={() => { setPlaying(false); onSelect(null); }}
+            className={`flex items-center space-x-1 px-3 py-1 rounded-full text-xs font-medium transition ${
+              selectedBlock === null
+                ? 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-400'
+                : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+            }`}
+            title="Back to live data"
+          >
+            <Radio size={12} />
+            <span>Live</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Download, Star, Trophy, Upload, X } from 'lucide-react';
+import { envLabel } from '@/lib/weights';
+import {
+  parseWatchlist,
+  watchlistSize,
+  type Watchlist,
+  type WatchlistSummary
+} from '@/lib/watchlist';
+
+interface WatchlistCardProps {
+  list: Watchlist;
+  summary: WatchlistSummary;
+  onChange: (list: Watchlist) => void;
+}
+
+export default function WatchlistCard({ list, summary, onChange }: WatchlistCardProps) {
+  const [entry, setEntry] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const addEntry = () => {
+    const added = parseWatchlist([entry]);
+    onChange(parseWatchlist({
+      hotkeys: [...list.hotkeys, ...added.hotkeys],
+      uids: [...list.uids, ...added.uids],
+    }));
+    setEntry('');
+  };
+
+  const exportList = () => {
+    const blob = new Blob([JSON.stringify(list, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'affine-watchlist.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importList = async (file: File) => {
+    try {
+      const imported = parseWatchlist(JSON.parse(await file.text()));
+      if (watchlistSize(imported) === 0) throw new Error('No hotkeys or UIDs found');
+      onChange(parseWatchlist({
+        hotkeys: [...list.hotkeys, ...imported.hotkeys],
+        uids: [...list.uids, ...imported.uids],
+      }));
+      setImportError(null);
+    } catch (error) {
+      console.error('Error importing watchlist:', error);
+      setImportError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const entries = [
+    ...list.hotkeys.map(hotkey => ({ key: hotkey, label: `${hotkey.slice(0, 8)}...`, title: hotkey })),
+    ...list.uids.map(uid => ({ key: String(uid), label: `UID ${uid}`, title: `UID ${uid}` })),
+  ];
+
+  const remove = (key: string) => onChange({
+    hotkeys: list.hotkeys.filter(h => h !== key),
+    uids: list.uids.filter(u => String(u) !== key),
+  });
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mb-8 border border-yellow-200 dark:border-yellow-800"
+    >
+      <div className="flex flex-col lg:flex-row lg:items-start lg:justify-between gap-4">
+        <div className="min-w-0">
+          <h3 className="text-lg font-semibold flex items-center">
+            <Star className="mr-2 text-yellow-500" size={20} />
+            My Miners
+            {summary.watched.length > 0 && (
+              <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">
+                {summary.watched.length} registered
+              </span>
+            )}
+          </h3>
+          {summary.watched.length > 0 ? (
+            <div className="mt-3 grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <p className="text-sm text-gray-600 dark:text-gray-400">Weight Share</p>
+                <p className="text-2xl font-bold">{(summary.weightShare * 100).toFixed(2)}%</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-600 dark:text-gray-400">Eligible</p>
+                <p className="text-2xl font-bold">{summary.eligibleCount} / {summary.watched.length}</p>
+              </div>
+              <div className="col-span-2">
+                <p className="text-sm text-gray-600 dark:text-gray-400 mb-1">Environments</p>
+                <div className="flex flex-wrap gap-2">
+                  {summary.leads.map(env => (
+                    <span
+                      key={env}
+                      className="px-2 py-1 rounded-full text-xs font-medium bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-400 flex items-center space-x-1"
+                      title="A watched miner is the env winner"
+                    >
+                      <Trophy size={12} />
+                      <span>{envLabel(env)}</span>
+                    </span>
+                  ))}
+                  {summary.trails.map(({ env, watchedScore, winnerScore }) => (
+                    <span
+                      key={env}
+                      className="px-2 py-1 rounded-full text-xs font-medium bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-400"
+                      title="Best watched score vs. the env winner"
+                    >
+                      {envLabel(env)}{' '}
+                      {watchedScore !== null && winnerScore !== null
+                        ? (watchedScore - winnerScore).toFixed(2)
+                        : 'no score'}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            </div>
+          ) : (
+            <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+              {watchlistSize(list) > 0
+                ? 'None of your watched miners are registered at this block.'
+                : 'Star rows in the leaderboard, or add hotkeys and UIDs here, to pin them to the top.'}
+            </p>
+          )}
+        </div>
+
+        <div className="lg:w-96 shrink-0 space-y-2">
+          <div className="flex items-center space-x-2">
+            <input
+              type="text"
+              placeholder="Hotkey or UID"
+              value={entry}
+              onChange={(e) => setEntry(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && entry.trim() && addEntry()}
+              className="flex-1 px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm font-mono outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              onClick={addEntry}
+              disabled={!entry.trim()}
+              className="px-3 py-1.5 rounded-lg bg-yellow-500 text-white text-sm font-medium hover:bg-yellow-600 transition disabled:opacity-50"
+            >
+              Add
+            </button>
+            <button
+              onClick={() => fileInput.current?.click()}
+              className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition"
+              title="Import watchlist JSON"
+            >
+              <Upload size={16} />
+            </button>
+            <button
+              onClick={exportList}
+              disabled={watchlistSize(list) === 0}
+              className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition disabled:opacity-50"
+              title="Export watchlist JSON"
+            >
+              <Download size={16} />
+            </button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importList(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+          {importError && (
+            <p className="text-xs text-red-600 dark:text-red-400">Import failed: {importError}</p>
+          )}
+          {entries.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {entries.map(({ key, label, title }) => (
+                <span
+                  key={key}
+                  className="flex items-center space-x-1 pl-2 pr-1 py-0.5 rounded-full text-xs font-mono bg-gray-100 dark:bg-gray-700"
+                  title={title}
+                >
+                  <span>{label}</span>
+                  <button onClick={() => remove(key)} className="text-gray-400 hover:text-red-600" title="Remove">
+                    <X size={12} />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,7 @@
+export async function register() {
+  // The collector writes to the local filesystem, so only start it in the Node.js runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startCollector } = await import('@/lib/history');
+    startCollector();
+  }
+}
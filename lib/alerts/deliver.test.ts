@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { buildPayload, detectFormat } from './deliver';
+import type { AlertEvent } from './types';
+
+const event: AlertEvent = {
+  rule: { id: 'elig', type: 'lost-eligibility', target: { uid: 12 }, webhook: 'https://example.com/hook' },
+  key: 'elig:12:5F4t',
+  title: 'UID 12 lost eligibility',
+  message: 'affine-labs/qwen3-8b-reason is no longer eligible for rewards as of block #6712451.',
+  block: 6712451,
+  fields: { UID: '12', Hotkey: '5F4t', Model: 'affine-labs/qwen3-8b-reason' },
+};
+
+describe('buildPayload', () => {
+  it('builds a Discord embed', () => {
+    expect(buildPayload(event, 'discord')).toEqual({
+      embeds: [{
+        title: 'UID 12 lost eligibility',
+        description: event.message,
+        color: 0xdc2626,
+        fields: [
+          { name: 'UID', value: '12', inline: true },
+          { name: 'Hotkey', value: '5F4t', inline: false },
+          { name: 'Model', value: 'affine-labs/qwen3-8b-reason', inline: true },
+        ],
+        footer: { text: 'elig · block #6712451' },
+      }],
+    });
+  });
+
+  it('builds Slack blocks with a plain-text fallback', () => {
+    const payload = buildPayload(event, 'slack') as { text: string; blocks: { fields?: unknown[] }[] };
+    expect(payload.text).toBe(`UID 12 lost eligibility: ${event.message}`);
+    expect(payload.blocks[1].fields).toContainEqual({ type: 'mrkdwn', text: '*UID*\n12' });
+  });
+});
+
+describe('detectFormat', () => {
+  it('recognizes webhook hosts', () => {
+    expect(detectFormat('https://discord.com/api/webhooks/1/abc')).toBe('discord');
+    expect(detectFormat('https://hooks.slack.com/services/T/B/x')).toBe('slack');
+    expect(detectFormat('http://localhost:9000/alerts')).toBe('json');
+  });
+
+  it('matches Discord subdomains but not look-alike hosts', () => {
+    expect(detectFormat('https://ptb.discord.com/api/webhooks/1/abc')).toBe('discord');
+    expect(detectFormat('https://discordapp.com/api/webhooks/1/abc')).toBe('discord');
+    expect(detectFormat('https://notdiscord.com/api/webhooks/1/abc')).toBe('json');
+    expect(detectFormat('https://evil-discordapp.com/hook')).toBe('json');
+  });
+});
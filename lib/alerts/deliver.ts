@@ -0,0 +1,82 @@
+import type { AlertEvent, WebhookFormat } from './types';
+
+// Discord embed colours
+const ALERT_RED = 0xdc2626;
+const ALERT_BLUE = 0x2563eb;
+
+const isWarning = (event: AlertEvent) =>
+  event.rule.type === 'lost-eligibility' || event.rule.type === 'weight-below';
+
+// Request body for each webhook flavour
+export const buildPayload = (event: AlertEvent, format: WebhookFormat) => {
+  const fields = Object.entries(event.fields);
+
+  switch (format) {
+    case 'discord':
+      return {
+        embeds: [{
+          title: event.title,
+          description: event.message,
+          color: isWarning(event) ? ALERT_RED : ALERT_BLUE,
+          fields: fields.map(([name, value]) => ({ name, value, inline: name !== 'Hotkey' })),
+          footer: { text: `${event.rule.name || event.rule.id} · block #${event.block}` },
+        }],
+      };
+    case 'slack':
+      return {
+        text: `${event.title}: ${event.message}`,
+        blocks: [
+          { type: 'section', text: { type: 'mrkdwn', text: `*${event.title}*\n${event.message}` } },
+          {
+            type: 'section',
+            fields: fields.slice(0, 10).map(([name, value]) => ({ type: 'mrkdwn', text: `*${name}*\n${value}` })),
+          },
+        ],
+      };
+    case 'json':
+      return {
+        rule: event.rule.id,
+        type: event.rule.type,
+        title: event.title,
+        message: event.message,
+        block: event.block,
+        fields: event.fields,
+      };
+  }
+};
+
+const isHost = (hostname: string, domain: string) => hostname === domain || hostname.endsWith(`.${domain}`);
+
+// Discord and Slack webhooks are recognizable by host; anything else gets plain JSON
+export const detectFormat = (webhook: string): WebhookFormat => {
+  const { hostname } = new URL(webhook);
+  if (isHost(hostname, 'discord.com') || isHost(hostname, 'discordapp.com')) return 'discord';
+  if (hostname === 'hooks.slack.com') return 'slack';
+  return 'json';
+};
+
+// Deliveries run one after another inside snapshot collection, so a webhook
+// that never answers must not hold it up
+const webhookTimeout = () => Number(process.env.ALERTS_WEBHOOK_TIMEOUT) || 10000;
+
+export const deliverEvent = async (event: AlertEvent) => {
+  const format = event.rule.format || detectFormat(event.rule.webhook);
+  const timeout = webhookTimeout();
+  let response: Response;
+  try {
+    response = await fetch(event.rule.webhook, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(buildPayload(event, format)),
+      signal: AbortSignal.timeout(timeout),
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === 'TimeoutError') {
+      throw new Error(`Webhook for rule ${event.rule.id} timed out after ${timeout}ms`);
+    }
+    throw error;
+  }
+  if (!response.ok) {
+    throw new Error(`Webhook for rule ${event.rule.id} responded with ${response.status}`);
+  }
+};
@@ -0,0 +1,129 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { loadFixture } from '@/test/fixtures';
+import { startMockUpstream, type MockUpstream } from '@/test/mock-upstream';
+import { validateWeightsData } from '@/lib/weights';
+import { processSnapshot } from './engine';
+
+let webhook: MockUpstream;
+let dir: string;
+const received: unknown[] = [];
+
+const writeRules = (rules: unknown[]) =>
+  writeFile(path.join(dir, 'rules.json'), JSON.stringify({ rules }));
+
+const current = () => validateWeightsData(loadFixture('weights/basic.json'));
+
+beforeAll(async () => {
+  webhook = await startMockUpstream({});
+});
+
+afterAll(async () => {
+  await webhook.close();
+  delete process.env.ALERTS_DIR;
+});
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), 'alerts-'));
+  process.env.ALERTS_DIR = dir;
+  received.length = 0;
+  webhook.routes['/hook'] = () => ({ status: 204 });
+  return () => rm(dir, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+// Collects POSTed bodies; the mock server hands us the raw request
+const capture = () => {
+  webhook.routes['/hook'] = (request) => {
+    let body = '';
+    request.on('data', chunk => body += chunk);
+    request.on('end', () => received.push(JSON.parse(body)));
+    return { status: 204 };
+  };
+};
+
+describe('processSnapshot', () => {
+  it('delivers once and then respects the cooldown', async () => {
+    capture();
+    await writeRules([{
+      id: 'low',
+      type: 'weight-below',
+      target: { uid: 203 },
+      threshold: 0.05,
+      webhook: `${webhook.url}/hook`,
+      format: 'json',
+    }]);
+
+    expect(await processSnapshot(null, current())).toHaveLength(1);
+    expect(await processSnapshot(null, current())).toHaveLength(0);
+
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    expect(received[0]).toMatchObject({ rule: 'low', type: 'weight-below', block: 6712450 });
+  });
+
+  it('fires again once the cooldown has passed', async () => {
+    await writeRules([{
+      id: 'low',
+      type: 'weight-below',
+      target: { uid: 203 },
+      threshold: 0.05,
+      webhook: `${webhook.url}/hook`,
+      cooldownMinutes: 0,
+    }]);
+
+    await processSnapshot(null, current());
+    expect(await processSnapshot(null, current())).toHaveLength(1);
+  });
+
+  it('retries failed deliveries on the next snapshot', async () => {
+    webhook.routes['/hook'] = () => ({ status: 500 });
+    await writeRules([{ id: 'low', type: 'weight-below', target: { uid: 203 }, threshold: 0.05, webhook: `${webhook.url}/hook` }]);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await processSnapshot(null, current())).toHaveLength(0);
+    webhook.routes['/hook'] = () => ({ status: 204 });
+    expect(await processSnapshot(null, current())).toHaveLength(1);
+  });
+
+  it('gives up on a webhook that never answers', async () => {
+    process.env.ALERTS_WEBHOOK_TIMEOUT = '50';
+    const silent = createServer(() => {});
+    await new Promise<void>(resolve => silent.listen(0, '127.0.0.1', resolve));
+    const { port } = silent.address() as AddressInfo;
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    await writeRules([{ id: 'low', type: 'weight-below', target: { uid: 203 }, threshold: 0.05, webhook: `http://127.0.0.1:${port}/hook` }]);
+
+    try {
+      expect(await processSnapshot(null, current())).toHaveLength(0);
+      expect(error).toHaveBeenCalledWith('Error delivering alert:', expect.objectContaining({
+        message: 'Webhook for rule low timed out after 50ms',
+      }));
+    } finally {
+      delete process.env.ALERTS_WEBHOOK_TIMEOUT;
+      silent.closeAllConnections();
+      await new Promise(resolve => silent.close(resolve));
+    }
+  });
+
+  it('skips invalid and disabled rules', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    await writeRules([
+      { id: 'bad', type: 'weight-below', target: {}, threshold: 2, webhook: 'not-a-url' },
+      { id: 'off', type: 'weight-below', target: { uid: 203 }, threshold: 0.05, webhook: `${webhook.url}/hook`, enabled: false },
+    ]);
+
+    expect(await processSnapshot(null, current())).toEqual([]);
+    expect(error).toHaveBeenCalledWith(expect.stringContaining('target needs a hotkey or uid'));
+  });
+
+  it('does nothing without a rules file', async () => {
+    expect(await processSnapshot(null, current())).toEqual([]);
+  });
+});
@@ -0,0 +1,77 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { WeightsData } from '@/lib/weights';
+import { deliverEvent } from './deliver';
+import { evaluateRules } from './evaluate';
+import { loadRules } from './rules';
+import type { AlertEvent } from './types';
+
+const DEFAULT_COOLDOWN_MINUTES = 60;
+// Cooldown entries older than this are dropped from the state file
+const STATE_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Resolved per call so tests can point ALERTS_DIR at a temp directory
+const alertsPaths = () => {
+  const dir = process.env.ALERTS_DIR || path.join(process.cwd(), '.data', 'alerts');
+  return {
+    dir,
+    rules: process.env.ALERTS_RULES_FILE || path.join(dir, 'rules.json'),
+    state: path.join(dir, 'state.json'),
+  };
+};
+
+// Last delivery time (ms) per event key
+type CooldownState = Record<string, number>;
+
+const loadState = async (file: string): Promise<CooldownState> => {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+    throw error;
+  }
+};
+
+const saveState = async (dir: string, file: string, state: CooldownState) => {
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(`${file}.tmp`, JSON.stringify(state, null, 2));
+  await fs.rename(`${file}.tmp`, file);
+};
+
+// Evaluates the rules against a newly recorded snapshot and delivers every
+// event whose key is out of cooldown. Returns the events that were delivered.
+export const processSnapshot = async (
+  previous: WeightsData | null,
+  current: WeightsData
+): Promise<AlertEvent[]> => {
+  const paths = alertsPaths();
+  const rules = await loadRules(paths.rules);
+  if (rules.length === 0) return [];
+
+  const events = evaluateRules(rules, previous, current);
+  const state = await loadState(paths.state);
+  const now = Date.now();
+
+  const delivered: AlertEvent[] = [];
+  for (const event of events) {
+    const cooldown = (event.rule.cooldownMinutes ?? DEFAULT_COOLDOWN_MINUTES) * 60 * 1000;
+    if (now - (state[event.key] ?? 0) < cooldown) continue;
+
+    try {
+      await deliverEvent(event);
+      state[event.key] = now;
+      delivered.push(event);
+    } catch (error) {
+      console.error('Error delivering alert:', error);
+    }
+  }
+
+  Object.keys(state)
+    .filter(key => now - state[key] > STATE_RETENTION_MS)
+    .forEach(key => delete state[key]);
+  if (events.length > 0) {
+    await saveState(paths.dir, paths.state, state);
+  }
+
+  return delivered;
+};
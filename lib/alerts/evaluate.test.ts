@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { loadFixture } from '@/test/fixtures';
+import { validateWeightsData, type WeightsData } from '@/lib/weights';
+import { evaluateRules } from './evaluate';
+import type { AlertRule } from './types';
+
+const WEBHOOK = 'https://example.com/hook';
+const UID_12_HOTKEY = '5F4tQyWrhfGVcNhoqeiNsR6KjD4wMZ2kfhLj4oHYuyHbZAc3';
+
+const snapshot = (edit?: (data: WeightsData, col: (name: string) => number) => void) => {
+  const data = validateWeightsData(loadFixture('weights/basic.json'));
+  edit?.(data, name => data.data.header.indexOf(name));
+  return data;
+};
+
+const rowFor = (data: WeightsData, uid: number) => data.data.rows.find(r => r[0] === uid)!;
+
+describe('evaluateRules', () => {
+  it('fires when a watched miner loses eligibility', () => {
+    const rule: AlertRule = { id: 'elig', type: 'lost-eligibility', target: { uid: 12 }, webhook: WEBHOOK };
+    const current = snapshot((data, col) => { rowFor(data, 12)[col('Elig')] = 'N'; data.block += 1; });
+
+    const events = evaluateRules([rule], snapshot(), current);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      key: `elig:12:${UID_12_HOTKEY}`,
+      title: 'UID 12 lost eligibility',
+      block: 6712451,
+    });
+    expect(evaluateRules([rule], snapshot(), snapshot())).toEqual([]);
+  });
+
+  it('treats a deregistered watched hotkey as lost eligibility', () => {
+    const rule: AlertRule = { id: 'elig', type: 'lost-eligibility', target: { hotkey: UID_12_HOTKEY }, webhook: WEBHOOK };
+    const current = snapshot(data => { data.data.rows = data.data.rows.filter(r => r[0] !== 12); });
+
+    expect(evaluateRules([rule], snapshot(), current).map(e => e.title)).toEqual(['UID 12 was deregistered']);
+  });
+
+  it('fires while a weight share stays under the threshold', () => {
+    const rule: AlertRule = { id: 'low', type: 'weight-below', target: { uid: 88 }, threshold: 0.2, webhook: WEBHOOK };
+
+    const events = evaluateRules([rule], null, snapshot());
+    expect(events).toHaveLength(1);
+    expect(events[0].fields['Weight share']).toBe('19.46%');
+    expect(evaluateRules([{ ...rule, threshold: 0.1 }], null, snapshot())).toEqual([]);
+  });
+
+  it('reports a changed env winner', () => {
+    const current = snapshot(data => { data.data.env_winners['affine:SAT'] = rowFor(data, 47)[1] as string; });
+    const all: AlertRule = { id: 'win', type: 'new-env-winner', webhook: WEBHOOK };
+
+    const events = evaluateRules([all, { ...all, id: 'ded', env: 'affine:DED' }], snapshot(), current);
+    expect(events.map(e => [e.key, e.message])).toEqual([
+      ['win:affine:SAT:5HGjWAeFDfFCWPsjFQdVV2Msvz2XtMktvgocEZcCj68kUMaw', 'UID 47 (affine-labs/qwen3-8b-reason-fork) now leads affine:SAT.'],
+    ]);
+  });
+
+  it('reports revisions not seen in the previous block', () => {
+    const rule: AlertRule = { id: 'rev', type: 'new-revision', model: 'Affine-Labs/Qwen3-8B-Reason', webhook: WEBHOOK };
+    const current = snapshot((data, col) => { rowFor(data, 12)[col('Rev')] = 'ffff0000aaaa'; });
+
+    const events = evaluateRules([rule], snapshot(), current);
+    expect(events.map(e => e.key)).toEqual(['rev:ffff0000aaaa']);
+  });
+
+  it('needs a previous snapshot for transition rules', () => {
+    const rules: AlertRule[] = [
+      { id: 'a', type: 'lost-eligibility', target: { uid: 203 }, webhook: WEBHOOK },
+      { id: 'b', type: 'new-env-winner', webhook: WEBHOOK },
+      { id: 'c', type: 'new-revision', model: 'newcomer/tiny-1b', webhook: WEBHOOK },
+    ];
+    expect(evaluateRules(rules, null, snapshot())).toEqual([]);
+  });
+});
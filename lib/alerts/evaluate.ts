@@ -0,0 +1,110 @@
+import { parseModels, type ModelRow, type WeightsData } from '@/lib/weights';
+import type { AlertEvent, AlertRule, MinerTarget } from './types';
+
+const matchesTarget = (m: ModelRow, target: MinerTarget) =>
+  (target.hotkey === undefined || m.hotkey === target.hotkey) &&
+  (target.uid === undefined || m.uid === target.uid);
+
+const minerFields = (m: ModelRow): Record<string, string> => ({
+  UID: String(m.uid),
+  Hotkey: m.hotkey,
+  Model: m.model,
+});
+
+const percent = (share: number) => `${(share * 100).toFixed(2)}%`;
+
+// Turns one snapshot (and the one before it, when known) into alert events.
+// Transition rules need `previous`; weight-below fires for as long as the
+// condition holds and relies on the cooldown to stay quiet.
+export const evaluateRules = (
+  rules: AlertRule[],
+  previous: WeightsData | null,
+  current: WeightsData
+): AlertEvent[] => {
+  const models = parseModels(current);
+  const previousModels = previous ? parseModels(previous) : [];
+  const totalWeight = models.reduce((sum, m) => sum + m.weight, 0);
+  const events: AlertEvent[] = [];
+
+  const event = (rule: AlertRule, key: string, title: string, message: string, fields: Record<string, string>) =>
+    events.push({ rule, key: `${rule.id}:${key}`, title, message, block: current.block, fields });
+
+  rules.forEach(rule => {
+    switch (rule.type) {
+      case 'lost-eligibility': {
+        if (!previous) return;
+        previousModels
+          .filter(before => before.eligible && matchesTarget(before, rule.target))
+          .forEach(before => {
+            const after = models.find(m => m.uid === before.uid && m.hotkey === before.hotkey);
+            if (after?.eligible) return;
+            event(
+              rule,
+              `${before.uid}:${before.hotkey}`,
+              after ? `UID ${before.uid} lost eligibility` : `UID ${before.uid} was deregistered`,
+              `${before.model} is no longer eligible for rewards as of block #${current.block}.`,
+              minerFields(before)
+            );
+          });
+        return;
+      }
+
+      case 'weight-below': {
+        models
+          .filter(m => matchesTarget(m, rule.target))
+          .forEach(m => {
+            const share = totalWeight > 0 ? m.weight / totalWeight : 0;
+            if (share >= rule.threshold) return;
+            event(
+              rule,
+              `${m.uid}:${m.hotkey}`,
+              `UID ${m.uid} weight below ${percent(rule.threshold)}`,
+              `${m.model} holds ${percent(share)} of total weight at block #${current.block}.`,
+              { ...minerFields(m), 'Weight share': percent(share) }
+            );
+          });
+        return;
+      }
+
+      case 'new-env-winner': {
+        if (!previous) return;
+        const winners = current.data.env_winners;
+        const envs = rule.env ? [rule.env] : Object.keys(winners);
+        envs.forEach(env => {
+          const winner = winners[env];
+          if (!winner || winner === previous.data.env_winners[env]) return;
+          const m = models.find(row => row.hotkey === winner);
+          event(
+            rule,
+            `${env}:${winner}`,
+            `New ${env} winner`,
+            m ? `UID ${m.uid} (${m.model}) now leads ${env}.` : `${winner} now leads ${env}.`,
+            m ? { Environment: env, ...minerFields(m) } : { Environment: env, Hotkey: winner }
+          );
+        });
+        return;
+      }
+
+      case 'new-revision': {
+        if (!previous) return;
+        const sameModel = (m: ModelRow) => m.model.toLowerCase() === rule.model.toLowerCase();
+        const known = new Set(previousModels.filter(sameModel).map(m => m.revision));
+        models
+          .filter(m => sameModel(m) && !known.has(m.revision))
+          .forEach(m => {
+            known.add(m.revision);
+            event(
+              rule,
+              m.revision,
+              `New revision of ${m.model}`,
+              `Revision ${m.revision.substring(0, 8)} was submitted by UID ${m.uid}.`,
+              { ...minerFields(m), Revision: m.revision }
+            );
+          });
+        return;
+      }
+    }
+  });
+
+  return events;
+};
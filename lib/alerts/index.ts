@@ -0,0 +1,14 @@
+export type {
+  AlertRule,
+  AlertEvent,
+  MinerTarget,
+  WebhookFormat,
+  LostEligibilityRule,
+  WeightBelowRule,
+  NewEnvWinnerRule,
+  NewRevisionRule,
+} from './types';
+export { ruleIssues, loadRules } from './rules';
+export { evaluateRules } from './evaluate';
+export { buildPayload, detectFormat, deliverEvent } from './deliver';
+export { processSnapshot } from './engine';
@@ -0,0 +1,75 @@
+import { promises as fs } from 'fs';
+import type { AlertRule } from './types';
+
+const RULE_TYPES = ['lost-eligibility', 'weight-below', 'new-env-winner', 'new-revision'];
+const FORMATS = ['discord', 'slack', 'json'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const hasTarget = (rule: Record<string, unknown>) =>
+  isRecord(rule.target) &&
+  (typeof rule.target.hotkey === 'string' || typeof rule.target.uid === 'number');
+
+// Returns what is wrong with one rule, or an empty list
+export const ruleIssues = (rule: unknown): string[] => {
+  if (!isRecord(rule)) return ['rule is not an object'];
+
+  const issues: string[] = [];
+  if (typeof rule.id !== 'string' || rule.id === '') issues.push('id is required');
+  if (typeof rule.webhook !== 'string' || !/^https?:\/\//.test(rule.webhook)) {
+    issues.push('webhook must be an http(s) URL');
+  }
+  if (rule.format !== undefined && !FORMATS.includes(rule.format as string)) {
+    issues.push(`format must be one of ${FORMATS.join(', ')}`);
+  }
+  if (rule.cooldownMinutes !== undefined && typeof rule.cooldownMinutes !== 'number') {
+    issues.push('cooldownMinutes must be a number');
+  }
+
+  switch (rule.type) {
+    case 'lost-eligibility':
+      if (!hasTarget(rule)) issues.push('target needs a hotkey or uid');
+      break;
+    case 'weight-below':
+      if (!hasTarget(rule)) issues.push('target needs a hotkey or uid');
+      if (typeof rule.threshold !== 'number' || rule.threshold < 0 || rule.threshold > 1) {
+        issues.push('threshold must be a weight share between 0 and 1');
+      }
+      break;
+    case 'new-env-winner':
+      if (rule.env !== undefined && typeof rule.env !== 'string') issues.push('env must be a string');
+      break;
+    case 'new-revision':
+      if (typeof rule.model !== 'string' || rule.model === '') issues.push('model is required');
+      break;
+    default:
+      issues.push(`type must be one of ${RULE_TYPES.join(', ')}`);
+  }
+  return issues;
+};
+
+// Reads the rules file. Invalid rules are logged and skipped so one typo
+// doesn't silence every other alert; a missing file means no rules.
+export const loadRules = async (file: string): Promise<AlertRule[]> => {
+  let json: unknown;
+  try {
+    json = JSON.parse(await fs.readFile(file, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const rules = isRecord(json) ? json.rules : json;
+  if (!Array.isArray(rules)) {
+    throw new Error(`${file} must contain an array of rules`);
+  }
+
+  return rules.filter((rule, i): rule is AlertRule => {
+    const issues = ruleIssues(rule);
+    if (issues.length > 0) {
+      console.error(`Skipping alert rule ${i} in ${file}: ${issues.join('; ')}`);
+    }
+    return issues.length === 0 && (rule as AlertRule).enabled !== false;
+  });
+};
@@ -0,0 +1,54 @@
+// Identifies the miner(s) a rule watches; either field may be given
+export interface MinerTarget {
+  hotkey?: string;
+  uid?: number;
+}
+
+interface BaseRule {
+  id: string;
+  name?: string;
+  // Discord or Slack incoming-webhook URL, or any endpoint accepting JSON
+  webhook: string;
+  format?: WebhookFormat;
+  // Minimum minutes between two deliveries for the same rule and subject
+  cooldownMinutes?: number;
+  enabled?: boolean;
+}
+
+export interface LostEligibilityRule extends BaseRule {
+  type: 'lost-eligibility';
+  target: MinerTarget;
+}
+
+export interface WeightBelowRule extends BaseRule {
+  type: 'weight-below';
+  target: MinerTarget;
+  // Weight share between 0 and 1
+  threshold: number;
+}
+
+export interface NewEnvWinnerRule extends BaseRule {
+  type: 'new-env-winner';
+  // Omit to watch every environment
+  env?: string;
+}
+
+export interface NewRevisionRule extends BaseRule {
+  type: 'new-revision';
+  // Model repo as it appears in the Model column, e.g. "org/name"
+  model: string;
+}
+
+export type AlertRule = LostEligibilityRule | WeightBelowRule | NewEnvWinnerRule | NewRevisionRule;
+
+export type WebhookFormat = 'discord' | 'slack' | 'json';
+
+export interface AlertEvent {
+  rule: AlertRule;
+  // Deliveries with the same key share a cooldown
+  key: string;
+  title: string;
+  message: string;
+  block: number;
+  fields: Record<string, string>;
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { boxStats, giniCoefficient, histogram, lorenzCurve } from './charts';
+
+describe('histogram', () => {
+  it('spreads values over equal-width bins and keeps the max in the last bin', () => {
+    const bins = histogram([0, 1, 2, 3, 4], 2);
+    expect(bins.map(b => b.count)).toEqual([2, 3]);
+    expect(bins[1]).toMatchObject({ start: 2, end: 4 });
+  });
+
+  it('puts identical values into the first bin', () => {
+    expect(histogram([5, 5, 5], 3).map(b => b.count)).toEqual([3, 0, 0]);
+    expect(histogram([], 3)).toEqual([]);
+  });
+});
+
+describe('lorenzCurve and giniCoefficient', () => {
+  it('is the diagonal for an equal distribution', () => {
+    expect(lorenzCurve([1, 1])).toEqual([
+      { population: 0, share: 0 },
+      { population: 0.5, share: 0.5 },
+      { population: 1, share: 1 },
+    ]);
+    expect(giniCoefficient([1, 1, 1, 1])).toBeCloseTo(0);
+  });
+
+  it('approaches 1 when one miner holds all the weight', () => {
+    expect(lorenzCurve([0, 0, 1]).map(p => p.share)).toEqual([0, 0, 0, 1]);
+    expect(giniCoefficient([0, 0, 0, 1])).toBeCloseTo(0.75);
+    expect(giniCoefficient([0, 0])).toBe(0);
+  });
+});
+
+describe('boxStats', () => {
+  it('interpolates quartiles', () => {
+    expect(boxStats([4, 1, 3, 2, 5])).toEqual({ min: 1, q1: 2, median: 3, q3: 4, max: 5, count: 5 });
+    expect(boxStats([1, 2])?.median).toBe(1.5);
+    expect(boxStats([])).toBeNull();
+  });
+});
@@ -0,0 +1,88 @@
+// Aggregations behind the charts section. Kept free of React and Recharts so
+// they can be tested on fixtures.
+
+export interface HistogramBin {
+  // Bin bounds, inclusive start and exclusive end (the last bin includes its end)
+  start: number;
+  end: number;
+  count: number;
+}
+
+export interface LorenzPoint {
+  // Cumulative share of miners and of the total value, both 0-1
+  population: number;
+  share: number;
+}
+
+export interface BoxStats {
+  min: number;
+  q1: number;
+  median: number;
+  q3: number;
+  max: number;
+  count: number;
+}
+
+export const histogram = (values: number[], binCount: number): HistogramBin[] => {
+  if (values.length === 0 || binCount < 1) return [];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const width = (max - min) / binCount || 1;
+
+  const bins = Array.from({ length: binCount }, (_, i) => ({
+    start: min + i * width,
+    end: min + (i + 1) * width,
+    count: 0,
+  }));
+  values.forEach(v => {
+    bins[Math.min(Math.floor((v - min) / width), binCount - 1)].count++;
+  });
+  return bins;
+};
+
+// Lorenz curve from the poorest miner upwards, starting at (0, 0)
+export const lorenzCurve = (values: number[]): LorenzPoint[] => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const total = sorted.reduce((sum, v) => sum + v, 0);
+  const points: LorenzPoint[] = [{ population: 0, share: 0 }];
+  let cumulative = 0;
+  sorted.forEach((v, i) => {
+    cumulative += v;
+    points.push({
+      population: (i + 1) / sorted.length,
+      share: total > 0 ? cumulative / total : 0,
+    });
+  });
+  return points;
+};
+
+// 0 when everyone holds the same share, approaching 1 when one miner holds it all
+export const giniCoefficient = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const n = sorted.length;
+  const total = sorted.reduce((sum, v) => sum + v, 0);
+  if (n === 0 || total === 0) return 0;
+  const weighted = sorted.reduce((sum, v, i) => sum + (i + 1) * v, 0);
+  return (2 * weighted) / (n * total) - (n + 1) / n;
+};
+
+// Linear interpolation between closest ranks
+const quantile = (sorted: number[], q: number) => {
+  const pos = (sorted.length - 1) * q;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+};
+
+export const boxStats = (values: number[]): BoxStats | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    min: sorted[0],
+    q1: quantile(sorted, 0.25),
+    median: quantile(sorted, 0.5),
+    q3: quantile(sorted, 0.75),
+    max: sorted[sorted.length - 1],
+    count: sorted.length,
+  };
+};
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { parseCompareUids, rankValues } from './compare';
+
+describe('parseCompareUids', () => {
+  it('keeps unique numeric uids up to the limit', () => {
+    expect(parseCompareUids('12,47,x,12,88,203')).toEqual([12, 47, 88]);
+    expect(parseCompareUids(null)).toEqual([]);
+  });
+});
+
+describe('rankValues', () => {
+  it('marks the best, worst and middle values', () => {
+    expect(rankValues([80, 90, 85])).toEqual(['worst', 'best', 'middle']);
+  });
+
+  it('reports ties only when everyone has the same value', () => {
+    expect(rankValues([4, 4])).toEqual(['tied', 'tied']);
+    expect(rankValues([4, null])).toEqual(['best', 'none']);
+  });
+
+  it('never lets a missing value win', () => {
+    expect(rankValues([null, null])).toEqual(['none', 'none']);
+    expect(rankValues([null, 10, 20])).toEqual(['none', 'worst', 'best']);
+  });
+});
@@ -0,0 +1,32 @@
+// Helpers for the side-by-side comparison view (/compare?uids=12,47)
+
+export const MAX_COMPARE = 3;
+
+// How one miner's value stands against the others for a single metric
+export type Standing = 'best' | 'worst' | 'middle' | 'tied' | 'none';
+
+// "12,47,x,12" -> [12, 47]; duplicates and junk are dropped, extras cut off
+export const parseCompareUids = (value: string | null): number[] => {
+  const uids: number[] = [];
+  (value || '').split(',').forEach(part => {
+    const uid = parseInt(part);
+    if (!isNaN(uid) && uid >= 0 && !uids.includes(uid)) uids.push(uid);
+  });
+  return uids.slice(0, MAX_COMPARE);
+};
+
+// Higher is better. Missing values never win and are reported as 'none'.
+export const rankValues = (values: (number | null)[]): Standing[] => {
+  const present = values.filter((v): v is number => v !== null);
+  if (present.length === 0) return values.map(() => 'none');
+
+  const best = Math.max(...present);
+  const worst = Math.min(...present);
+  return values.map(v => {
+    if (v === null) return 'none';
+    if (best === worst) return present.length === values.length ? 'tied' : 'best';
+    if (v === best) return 'best';
+    if (v === worst) return 'worst';
+    return 'middle';
+  });
+};
@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { dashboardConfig, findDeployment, parseDeployments, withDeployment, type Deployment } from './config';
+
+const BASE: Deployment = {
+  id: 'mainnet',
+  label: 'Mainnet',
+  subnetId: 120,
+  weightsUrl: 'https://dashboard.affine.io/api/weights',
+  rpcEndpoint: null,
+};
+
+const ENV_KEYS = [
+  'NEXT_PUBLIC_DEPLOYMENTS',
+  'NEXT_PUBLIC_DEFAULT_DEPLOYMENT',
+  'NEXT_PUBLIC_SUBNET_ID',
+  'NEXT_PUBLIC_REFRESH_INTERVAL',
+  'NEXT_PUBLIC_BLOCK_TIME_SECONDS',
+];
+
+afterEach(() => {
+  ENV_KEYS.forEach(key => delete process.env[key]);
+});
+
+describe('parseDeployments', () => {
+  it('adds valid entries after the base deployment', () => {
+    const deployments = parseDeployments(
+      JSON.stringify([{ id: 'staging', label: 'Staging', weightsUrl: 'http://staging/api/weights', subnetId: 42 }]),
+      BASE
+    );
+    expect(deployments.map(d => [d.id, d.subnetId])).toEqual([['mainnet', 120], ['staging', 42]]);
+  });
+
+  it('lets an entry with the base id override it', () => {
+    const [mainnet] = parseDeployments(JSON.stringify([{ id: 'mainnet', rpcEndpoint: 'wss://rpc' }]), BASE);
+    expect(mainnet).toEqual({ ...BASE, rpcEndpoint: 'wss://rpc' });
+  });
+
+  it('skips entries without a usable id or weights URL', () => {
+    const raw = JSON.stringify([{ id: 'Bad Id', weightsUrl: 'x' }, { id: 'nourl' }, 'staging', null]);
+    expect(parseDeployments(raw, BASE)).toEqual([BASE]);
+  });
+
+  it('falls back to the base deployment on invalid JSON', () => {
+    expect(parseDeployments('[{', BASE)).toEqual([BASE]);
+    expect(parseDeployments(undefined, BASE)).toEqual([BASE]);
+  });
+});
+
+describe('dashboardConfig', () => {
+  it('reads the documented environment variables', () => {
+    process.env.NEXT_PUBLIC_SUBNET_ID = '64';
+    process.env.NEXT_PUBLIC_REFRESH_INTERVAL = '30000';
+    process.env.NEXT_PUBLIC_BLOCK_TIME_SECONDS = '6';
+    const config = dashboardConfig();
+    expect(config.deployments[0].subnetId).toBe(64);
+    expect(config.refreshInterval).toBe(30000);
+    expect(config.blockTimeSeconds).toBe(6);
+  });
+
+  it('defaults the block time to 12 seconds', () => {
+    expect(dashboardConfig().blockTimeSeconds).toBe(12);
+    process.env.NEXT_PUBLIC_BLOCK_TIME_SECONDS = '0';
+    expect(dashboardConfig().blockTimeSeconds).toBe(12);
+  });
+
+  it('ignores a default deployment that is not configured', () => {
+    process.env.NEXT_PUBLIC_DEFAULT_DEPLOYMENT = 'staging';
+    expect(dashboardConfig().defaultDeployment).toBe('mainnet');
+    process.env.NEXT_PUBLIC_DEPLOYMENTS = JSON.stringify([{ id: 'staging', weightsUrl: 'http://staging' }]);
+    expect(dashboardConfig().defaultDeployment).toBe('staging');
+  });
+});
+
+describe('findDeployment and withDeployment', () => {
+  const config = { ...dashboardConfig(), deployments: parseDeployments(JSON.stringify([{ id: 'staging', weightsUrl: 'http://staging' }]), BASE) };
+
+  it('treats a missing id as the default and an unknown one as null', () => {
+    expect(findDeployment(config, null)?.id).toBe('mainnet');
+    expect(findDeployment(config, 'staging')?.id).toBe('staging');
+    expect(findDeployment(config, 'devnet')).toBeNull();
+  });
+
+  it('only adds the parameter off the default deployment', () => {
+    expect(withDeployment('/api/weights', 'mainnet', config)).toBe('/api/weights');
+    expect(withDeployment('/api/weights', null, config)).toBe('/api/weights');
+    expect(withDeployment('/api/weights', 'staging', config)).toBe('/api/weights?deployment=staging');
+    expect(withDeployment('/compare?uids=1,2', 'staging', config)).toBe('/compare?uids=1,2&deployment=staging');
+  });
+});
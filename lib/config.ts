@@ -0,0 +1,104 @@
+import { BLOCK_TIME_SECONDS, WEIGHTS_API_URL } from '@/lib/weights';
+
+// Dashboard configuration shared by the browser and the server.
+//
+// NEXT_PUBLIC_* variables are inlined into the client bundle at build time,
+// which only works when they are read by their literal name, so every one of
+// them is spelled out below. Server-only variables (AFFINE_WEIGHTS_URL) are
+// undefined in the browser, which never needs them.
+
+// One Affine validator endpoint the dashboard can watch
+export interface Deployment {
+  // Used in URLs (?deployment=staging) and as a cache key
+  id: string;
+  label: string;
+  subnetId: number;
+  // Upstream weights endpoint; only the server-side proxy fetches it
+  weightsUrl: string;
+  // Informational; shown next to the deployment selector
+  rpcEndpoint: string | null;
+}
+
+export interface DashboardConfig {
+  deployments: Deployment[];
+  // Shown when the URL names none. History, alerts and the CLI default to it.
+  defaultDeployment: string;
+  // ms between /api/weights polls when the live stream is unavailable
+  refreshInterval: number;
+  priceRefreshInterval: number;
+  snapshotRefreshInterval: number;
+  // Seconds per block, used wherever block counts become ages or days
+  blockTimeSeconds: number;
+}
+
+export const MAINNET_ID = 'mainnet';
+
+const DEPLOYMENT_ID = /^[a-z0-9][a-z0-9-]*$/;
+
+const positiveNumber = (value: string | undefined, fallback: number) => {
+  const n = Number(value);
+  return value !== undefined && value !== '' && n > 0 ? n : fallback;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// NEXT_PUBLIC_DEPLOYMENTS is a JSON array of extra deployments. Each needs an
+// id and a weightsUrl; other fields default to the base deployment's. An entry
+// reusing the base id overrides it. Invalid entries are skipped.
+export const parseDeployments = (raw: string | undefined, base: Deployment): Deployment[] => {
+  let entries: unknown = [];
+  try {
+    entries = raw ? JSON.parse(raw) : [];
+  } catch (error) {
+    console.error('Error parsing NEXT_PUBLIC_DEPLOYMENTS:', error);
+  }
+
+  const deployments = new Map<string, Deployment>([[base.id, base]]);
+  (Array.isArray(entries) ? entries : []).forEach(entry => {
+    if (!isRecord(entry) || typeof entry.id !== 'string' || !DEPLOYMENT_ID.test(entry.id)) return;
+    const previous = deployments.get(entry.id);
+    const weightsUrl = typeof entry.weightsUrl === 'string' ? entry.weightsUrl : previous?.weightsUrl;
+    if (!weightsUrl) return;
+    deployments.set(entry.id, {
+      id: entry.id,
+      label: typeof entry.label === 'string' ? entry.label : previous?.label ?? entry.id,
+      subnetId: typeof entry.subnetId === 'number' ? entry.subnetId : base.subnetId,
+      weightsUrl,
+      rpcEndpoint: typeof entry.rpcEndpoint === 'string' ? entry.rpcEndpoint : previous?.rpcEndpoint ?? null,
+    });
+  });
+  return Array.from(deployments.values());
+};
+
+// Read on every call rather than at import so tests can change the environment
+export const dashboardConfig = (): DashboardConfig => {
+  const mainnet: Deployment = {
+    id: MAINNET_ID,
+    label: 'Mainnet',
+    subnetId: positiveNumber(process.env.NEXT_PUBLIC_SUBNET_ID, 120),
+    weightsUrl: process.env.AFFINE_WEIGHTS_URL || WEIGHTS_API_URL,
+    rpcEndpoint: process.env.NEXT_PUBLIC_RPC_ENDPOINT || null,
+  };
+  const deployments = parseDeployments(process.env.NEXT_PUBLIC_DEPLOYMENTS, mainnet);
+  const wanted = process.env.NEXT_PUBLIC_DEFAULT_DEPLOYMENT;
+
+  return {
+    deployments,
+    defaultDeployment: deployments.some(d => d.id === wanted) ? wanted! : MAINNET_ID,
+    refreshInterval: positiveNumber(process.env.NEXT_PUBLIC_REFRESH_INTERVAL, 10000),
+    priceRefreshInterval: positiveNumber(process.env.NEXT_PUBLIC_PRICE_REFRESH_INTERVAL, 300000),
+    snapshotRefreshInterval: positiveNumber(process.env.NEXT_PUBLIC_SNAPSHOT_REFRESH_INTERVAL, 60000),
+    blockTimeSeconds: positiveNumber(process.env.NEXT_PUBLIC_BLOCK_TIME_SECONDS, BLOCK_TIME_SECONDS),
+  };
+};
+
+// null or '' selects the default deployment; an unknown id returns null
+export const findDeployment = (config: DashboardConfig, id: string | null) =>
+  config.deployments.find(d => d.id === (id || config.defaultDeployment)) ?? null;
+
+// Appends ?deployment= for anything but the default, so default URLs stay unchanged
+export const withDeployment = (path: string, deployment: string | null, config: DashboardConfig) => {
+  if (!deployment || deployment === config.defaultDeployment) return path;
+  return `${path}${path.includes('?') ? '&' : '?'}deployment=${encodeURIComponent(deployment)}`;
+};
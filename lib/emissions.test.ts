@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_EMISSIONS, estimateEarnings, normalizeEmissionsConfig } from './emissions';
+
+describe('estimateEarnings', () => {
+  it('scales the miner emission by weight share', () => {
+    const config = { ...DEFAULT_EMISSIONS, emissionPerBlock: 1, minerShare: 0.5, alphaPriceTao: 0.02 };
+    const earnings = estimateEarnings(0.25, config, 400);
+    // 0.125 alpha per block, 7200 blocks per day at 12s
+    expect(earnings.alphaPerTempo).toBeCloseTo(45);
+    expect(earnings.alphaPerDay).toBeCloseTo(900);
+    expect(earnings.taoPerDay).toBeCloseTo(18);
+    expect(earnings.usdPerDay).toBeCloseTo(7200);
+  });
+
+  it('uses the configured block time and leaves USD empty without a price', () => {
+    const earnings = estimateEarnings(1, { ...DEFAULT_EMISSIONS, blockTimeSeconds: 24 }, null);
+    expect(earnings.alphaPerDay).toBeCloseTo(0.41 * 3600);
+    expect(earnings.usdPerDay).toBeNull();
+  });
+});
+
+describe('normalizeEmissionsConfig', () => {
+  it('keeps valid values and falls back for the rest', () => {
+    expect(normalizeEmissionsConfig({ minerShare: 0.5, blockTimeSeconds: 0, tempoBlocks: '360' })).toEqual({
+      ...DEFAULT_EMISSIONS,
+      minerShare: 0.5,
+    });
+    expect(normalizeEmissionsConfig(null)).toEqual(DEFAULT_EMISSIONS);
+  });
+});
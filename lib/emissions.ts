@@ -0,0 +1,68 @@
+// Rough earnings model: a miner's share of the subnet's miner emission is its
+// share of total weight. Every input is user-editable because none of them
+// are exposed by the weights API.
+import { dashboardConfig } from '@/lib/config';
+
+export interface EmissionsConfig {
+  // Alpha emitted into the subnet each block
+  emissionPerBlock: number;
+  // Fraction of the emission paid to miners, 0-1
+  minerShare: number;
+  blockTimeSeconds: number;
+  // Blocks between emission payouts
+  tempoBlocks: number;
+  // TAO per alpha in the subnet pool
+  alphaPriceTao: number;
+}
+
+export interface MinerEarnings {
+  alphaPerTempo: number;
+  alphaPerDay: number;
+  taoPerDay: number;
+  // null until the TAO price has loaded
+  usdPerDay: number | null;
+}
+
+export const DEFAULT_EMISSIONS: EmissionsConfig = {
+  emissionPerBlock: 1,
+  minerShare: 0.41,
+  // Same block time the other pages use for miner ages
+  blockTimeSeconds: dashboardConfig().blockTimeSeconds,
+  tempoBlocks: 360,
+  alphaPriceTao: 1,
+};
+
+export const blocksPerDay = (config: EmissionsConfig) => 86400 / config.blockTimeSeconds;
+
+// `weightShare` is the miner's weight divided by the total weight
+export const estimateEarnings = (
+  weightShare: number,
+  config: EmissionsConfig,
+  taoPriceUsd: number | null
+): MinerEarnings => {
+  const alphaPerBlock = config.emissionPerBlock * config.minerShare * weightShare;
+  const alphaPerDay = alphaPerBlock * blocksPerDay(config);
+  const taoPerDay = alphaPerDay * config.alphaPriceTao;
+  return {
+    alphaPerTempo: alphaPerBlock * config.tempoBlocks,
+    alphaPerDay,
+    taoPerDay,
+    usdPerDay: taoPriceUsd !== null ? taoPerDay * taoPriceUsd : null,
+  };
+};
+
+// Reads a stored config, keeping defaults for anything missing or out of range
+export const normalizeEmissionsConfig = (input: unknown): EmissionsConfig => {
+  const stored = (input && typeof input === 'object' ? input : {}) as Partial<Record<keyof EmissionsConfig, unknown>>;
+  const pick = (key: keyof EmissionsConfig, valid: (n: number) => boolean) => {
+    const value = stored[key];
+    return typeof value === 'number' && valid(value) ? value : DEFAULT_EMISSIONS[key];
+  };
+  return {
+    emissionPerBlock: pick('emissionPerBlock', n => n >= 0),
+    minerShare: pick('minerShare', n => n >= 0 && n <= 1),
+    blockTimeSeconds: pick('blockTimeSeconds', n => n > 0),
+    tempoBlocks: pick('tempoBlocks', n => n > 0),
+    alphaPriceTao: pick('alphaPriceTao', n => n >= 0),
+  };
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { loadFixture } from '@/test/fixtures';
+import { parseModels, validateWeightsData } from '@/lib/weights';
+import { buildExport, exportColumns, toExportRecords } from './export';
+
+const data = validateWeightsData(loadFixture('weights/basic.json'));
+const models = parseModels(data);
+
+describe('toExportRecords', () => {
+  it('flattens env cells and layer points into stable columns', () => {
+    const [first] = toExportRecords(models, data);
+    expect(Object.keys(first)).toEqual(exportColumns(data));
+    expect(first).toMatchObject({
+      block: 6712450,
+      uid: 12,
+      eligible: true,
+      firstBlock: 6650100,
+      weight: 0.4125,
+      SAT_accuracy: 84.2,
+      SAT_marked: true,
+      SAT_samples: 1480,
+      ABD_marked: false,
+      L4_points: 2,
+    });
+  });
+
+  it('leaves empty env cells as nulls', () => {
+    const record = toExportRecords(models, data).find(r => r.uid === 203)!;
+    expect(record.SAT_accuracy).toBeNull();
+    expect(record.SAT_marked).toBeNull();
+    expect(record.SAT_samples).toBeNull();
+    expect(record.ABD_samples).toBe(24);
+  });
+});
+
+describe('buildExport', () => {
+  it('writes CSV with a header and quotes cells that need it', () => {
+    const quoted = [{ ...models[0], model: 'org/name, "v2"' }];
+    const lines = buildExport(quoted, data, 'csv').trimEnd().split('\n');
+    expect(lines[0]).toBe(exportColumns(data).join(','));
+    expect(lines[1]).toContain('"org/name, ""v2"""');
+    expect(buildExport(models, data, 'csv').trimEnd().split('\n')).toHaveLength(5);
+  });
+
+  it('keeps the given row order in JSON and NDJSON', () => {
+    const reversed = [...models].reverse();
+    const json = JSON.parse(buildExport(reversed, data, 'json'));
+    expect(json.map((r: { uid: number }) => r.uid)).toEqual([203, 88, 47, 12]);
+
+    const lines = buildExport(reversed, data, 'ndjson').trimEnd().split('\n');
+    expect(lines.map(line => JSON.parse(line).uid)).toEqual([203, 88, 47, 12]);
+  });
+});
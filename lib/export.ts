@@ -0,0 +1,96 @@
+// Flat leaderboard records for CSV, JSON and NDJSON export. Every record has
+// the same columns in the same order, so the output loads straight into a
+// dataframe or a Parquet writer without schema inference surprises.
+import { envLabel, getLayerColumns, parseEnvCell, type ModelRow, type WeightsData } from '@/lib/weights';
+
+export type ExportFormat = 'csv' | 'json' | 'ndjson';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'ndjson'];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json',
+  ndjson: 'application/x-ndjson',
+};
+
+export type ExportValue = string | number | boolean | null;
+export type ExportRecord = Record<string, ExportValue>;
+
+export const isExportFormat = (value: string | null): value is ExportFormat =>
+  EXPORT_FORMATS.includes(value as ExportFormat);
+
+// Env columns use the short label ("SAT_accuracy"), layers their header ("L3_points")
+export const exportColumns = (data: WeightsData) => [
+  'block',
+  'uid',
+  'hotkey',
+  'model',
+  'revision',
+  'eligible',
+  'firstBlock',
+  'weight',
+  'totalPoints',
+  'avgEnvScore',
+  'totalSamples',
+  ...data.data.environments.flatMap(env =>
+    ['accuracy', 'marked', 'samples'].map(field => `${envLabel(env)}_${field}`)),
+  ...getLayerColumns(data.data.header).map(layer => `${layer}_points`),
+];
+
+export const toExportRecords = (models: ModelRow[], data: WeightsData): ExportRecord[] => {
+  const layers = getLayerColumns(data.data.header);
+
+  return models.map(m => {
+    const record: ExportRecord = {
+      block: data.block,
+      uid: m.uid,
+      hotkey: m.hotkey,
+      model: m.model,
+      revision: m.revision,
+      eligible: m.eligible,
+      firstBlock: m.firstBlock,
+      weight: m.weight,
+      totalPoints: m.totalPoints,
+      avgEnvScore: m.avgEnvScore,
+      totalSamples: m.totalSamples,
+    };
+    data.data.environments.forEach(env => {
+      const cell = m.environments[env] || '';
+      const score = parseEnvCell(cell);
+      const label = envLabel(env);
+      record[`${label}_accuracy`] = score.accuracy;
+      record[`${label}_marked`] = cell ? score.marked : null;
+      record[`${label}_samples`] = cell ? score.samples : null;
+    });
+    layers.forEach(layer => {
+      record[`${layer}_points`] = m.layerPoints[layer] ?? 0;
+    });
+    return record;
+  });
+};
+
+const csvCell = (value: ExportValue) => {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const serializeExport = (records: ExportRecord[], columns: string[], format: ExportFormat) => {
+  switch (format) {
+    case 'csv':
+      return [columns, ...records.map(r => columns.map(c => r[c] ?? null))]
+        .map(row => row.map(csvCell).join(','))
+        .join('\n') + '\n';
+    case 'json':
+      return JSON.stringify(records, null, 2);
+    case 'ndjson':
+      return records.map(r => JSON.stringify(r)).join('\n') + (records.length > 0 ? '\n' : '');
+  }
+};
+
+// Rows are exported in the order given, so callers control filtering and sort
+export const buildExport = (models: ModelRow[], data: WeightsData, format: ExportFormat) =>
+  serializeExport(toExportRecords(models, data), exportColumns(data), format);
+
+export const exportFileName = (block: number, format: ExportFormat) =>
+  `affine-leaderboard-${block}.${format}`;
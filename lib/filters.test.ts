@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { loadFixture } from '@/test/fixtures';
+import { parseModels, validateWeightsData } from '@/lib/weights';
+import { EMPTY_FILTER, applyAdvancedFilter, compileModelMatch, countActiveFilters, parseFilter, type AdvancedFilter } from './filters';
+
+const data = validateWeightsData(loadFixture('weights/basic.json'));
+const models = parseModels(data);
+
+const uids = (patch: Partial<AdvancedFilter>) =>
+  applyAdvancedFilter(models, { ...EMPTY_FILTER, ...patch }, data.block).map(m => m.uid);
+
+describe('applyAdvancedFilter', () => {
+  it('keeps everything when empty', () => {
+    expect(uids({})).toEqual([12, 47, 88, 203]);
+  });
+
+  it('applies numeric ranges with open bounds', () => {
+    expect(uids({ weight: { min: 0.2 } })).toEqual([12, 47]);
+    expect(uids({ totalPoints: { min: 2, max: 4 } })).toEqual([47, 88]);
+    expect(uids({ totalSamples: { max: 3100 } })).toEqual([88, 203]);
+  });
+
+  it('excludes rows without a value from avgEnvScore bounds', () => {
+    const withoutScores = models.map(m => m.uid === 203 ? { ...m, avgEnvScore: null } : m);
+    const filter = { ...EMPTY_FILTER, avgEnvScore: { max: 100 } };
+    expect(applyAdvancedFilter(withoutScores, filter, data.block).map(m => m.uid)).toEqual([12, 47, 88]);
+  });
+
+  it('filters on age in days from firstBlock', () => {
+    // UID 203 registered 349 blocks (~0.05 days) before the snapshot
+    expect(uids({ ageDays: { max: 1 } })).toEqual([203]);
+    expect(uids({ ageDays: { min: 5 } })).toEqual([12, 88]);
+  });
+
+  it('requires a minimum score in each chosen environment', () => {
+    expect(uids({ minEnvScores: { 'affine:SAT': 80 } })).toEqual([12, 47]);
+    expect(uids({ minEnvScores: { 'affine:SAT': 80, 'affine:ABD': 72 } })).toEqual([47]);
+  });
+
+  it('requires points in each chosen layer', () => {
+    expect(uids({ layers: ['L3'] })).toEqual([47]);
+    expect(uids({ layers: ['L4', 'L5'] })).toEqual([12, 47, 88]);
+  });
+
+  it('matches model names by prefix or regex', () => {
+    expect(uids({ modelMatch: 'Affine-Labs/' })).toEqual([12, 47]);
+    expect(uids({ modelMatch: 'llama|tiny', modelMatchMode: 'regex' })).toEqual([88, 203]);
+    expect(uids({ modelMatch: '-fork$', modelMatchMode: 'regex' })).toEqual([47]);
+  });
+
+  it('ignores a regex that does not compile', () => {
+    expect(uids({ modelMatch: 'qwen(', modelMatchMode: 'regex' })).toEqual([12, 47, 88, 203]);
+  });
+});
+
+describe('compileModelMatch', () => {
+  it('escapes prefix patterns', () => {
+    expect(compileModelMatch('a.b', 'prefix')!.test('axb')).toBe(false);
+    expect(compileModelMatch('(', 'regex')).toBeNull();
+  });
+});
+
+describe('countActiveFilters', () => {
+  it('counts each condition', () => {
+    expect(countActiveFilters(EMPTY_FILTER)).toBe(0);
+    expect(countActiveFilters({
+      ...EMPTY_FILTER,
+      weight: { min: 0.1 },
+      minEnvScores: { 'affine:SAT': 50 },
+      layers: ['L3', 'L4'],
+      modelMatch: 'org/',
+    })).toBe(5);
+  });
+});
+
+describe('parseFilter', () => {
+  it('fills in parts a stored filter leaves out', () => {
+    expect(parseFilter({ weight: { min: 0.1 }, layers: ['L3'] })).toEqual({
+      ...EMPTY_FILTER,
+      weight: { min: 0.1 },
+      layers: ['L3'],
+    });
+  });
+
+  it('rejects parts with the wrong shape', () => {
+    expect(parseFilter(null)).toBeNull();
+    expect(parseFilter([])).toBeNull();
+    expect(parseFilter({ weight: { min: '0.1' } })).toBeNull();
+    expect(parseFilter({ ageDays: 5 })).toBeNull();
+    expect(parseFilter({ minEnvScores: { 'affine:SAT': 'high' } })).toBeNull();
+    expect(parseFilter({ layers: 'L3' })).toBeNull();
+    expect(parseFilter({ modelMatch: 42 })).toBeNull();
+    expect(parseFilter({ modelMatchMode: 'glob' })).toBeNull();
+  });
+});
@@ -0,0 +1,136 @@
+import { ageInDays, parseEnvScore, type ModelRow } from '@/lib/weights';
+
+// Either bound may be left open
+export interface NumericRange {
+  min?: number;
+  max?: number;
+}
+
+export type ModelMatchMode = 'prefix' | 'regex';
+
+// Composable leaderboard filter; every part that is set must match
+export interface AdvancedFilter {
+  // Weight as stored on the row (0-1)
+  weight: NumericRange;
+  totalPoints: NumericRange;
+  avgEnvScore: NumericRange;
+  totalSamples: NumericRange;
+  ageDays: NumericRange;
+  // Minimum accuracy per environment
+  minEnvScores: Record<string, number>;
+  // Layers the miner must hold points in
+  layers: string[];
+  modelMatch: string;
+  modelMatchMode: ModelMatchMode;
+}
+
+export const EMPTY_FILTER: AdvancedFilter = {
+  weight: {},
+  totalPoints: {},
+  avgEnvScore: {},
+  totalSamples: {},
+  ageDays: {},
+  minEnvScores: {},
+  layers: [],
+  modelMatch: '',
+  modelMatchMode: 'prefix',
+};
+
+const RANGE_KEYS = ['weight', 'totalPoints', 'avgEnvScore', 'totalSamples', 'ageDays'] as const;
+
+const rangeActive = (range: NumericRange) => range.min !== undefined || range.max !== undefined;
+
+const inRange = (value: number | null, range: NumericRange) => {
+  if (!rangeActive(range)) return true;
+  // A missing value (e.g. no env scores yet) never satisfies a bound
+  if (value === null) return false;
+  return (range.min === undefined || value >= range.min) && (range.max === undefined || value <= range.max);
+};
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && !isNaN(value);
+
+const parseRange = (input: unknown): NumericRange | null => {
+  if (!input || typeof input !== 'object') return null;
+  const { min, max } = input as Record<string, unknown>;
+  if ((min !== undefined && !isNumber(min)) || (max !== undefined && !isNumber(max))) return null;
+  return { ...(min !== undefined && { min }), ...(max !== undefined && { max }) };
+};
+
+// A stored filter, e.g. from a saved preset. Missing parts fall back to
+// EMPTY_FILTER; null when any part that is present has the wrong shape.
+export const parseFilter = (input: unknown): AdvancedFilter | null => {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return null;
+  const stored = { ...EMPTY_FILTER, ...(input as Partial<Record<keyof AdvancedFilter, unknown>>) };
+
+  const [weight, totalPoints, avgEnvScore, totalSamples, ageDays] = RANGE_KEYS.map(key => parseRange(stored[key]));
+  if (!weight || !totalPoints || !avgEnvScore || !totalSamples || !ageDays) return null;
+
+  const { minEnvScores, layers, modelMatch, modelMatchMode } = stored;
+  if (!minEnvScores || typeof minEnvScores !== 'object' || Array.isArray(minEnvScores)) return null;
+  if (!Object.values(minEnvScores).every(isNumber)) return null;
+  if (!Array.isArray(layers) || !layers.every(layer => typeof layer === 'string')) return null;
+  if (typeof modelMatch !== 'string') return null;
+  if (modelMatchMode !== 'prefix' && modelMatchMode !== 'regex') return null;
+
+  return {
+    weight,
+    totalPoints,
+    avgEnvScore,
+    totalSamples,
+    ageDays,
+    minEnvScores: minEnvScores as Record<string, number>,
+    layers,
+    modelMatch,
+    modelMatchMode,
+  };
+};
+
+// Number of separate conditions in use, for the "Filters (n)" badge
+export const countActiveFilters = (filter: AdvancedFilter) =>
+  RANGE_KEYS.filter(key => rangeActive(filter[key])).length +
+  Object.keys(filter.minEnvScores).length +
+  filter.layers.length +
+  (filter.modelMatch ? 1 : 0);
+
+// Prefix matches are case-insensitive and literal, e.g. a HuggingFace org "affine-labs/".
+// Returns null for a regex that does not compile.
+export const compileModelMatch = (pattern: string, mode: ModelMatchMode): RegExp | null => {
+  if (mode === 'prefix') {
+    return new RegExp(`^${pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`, 'i');
+  }
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    return null;
+  }
+};
+
+export const applyAdvancedFilter = (
+  models: ModelRow[],
+  filter: AdvancedFilter,
+  currentBlock: number,
+  blockTimeSeconds?: number
+) => {
+  const modelMatch = filter.modelMatch
+    ? compileModelMatch(filter.modelMatch, filter.modelMatchMode)
+    : null;
+  const envMinimums = Object.entries(filter.minEnvScores);
+
+  return models.filter(m => {
+    if (!inRange(m.weight, filter.weight)) return false;
+    if (!inRange(m.totalPoints, filter.totalPoints)) return false;
+    if (!inRange(m.avgEnvScore, filter.avgEnvScore)) return false;
+    if (!inRange(m.totalSamples, filter.totalSamples)) return false;
+    if (!inRange(ageInDays(m.firstBlock, currentBlock, blockTimeSeconds), filter.ageDays)) return false;
+
+    if (envMinimums.some(([env, min]) => (parseEnvScore(m.environments[env]) ?? -Infinity) < min)) {
+      return false;
+    }
+    if (filter.layers.some(layer => !(m.layerPoints[layer] > 0))) return false;
+
+    // An invalid regex filters nothing rather than everything while it is being typed
+    if (modelMatch && !modelMatch.test(m.model)) return false;
+
+    return true;
+  });
+};
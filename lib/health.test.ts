@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { loadFixture } from '@/test/fixtures';
+import { parseModels, validateWeightsData } from './weights';
+import { ageDistribution, concentration, nakamotoCoefficient, topShare, winnerHoldings } from './health';
+
+const data = validateWeightsData(loadFixture('weights/basic.json'));
+const models = parseModels(data);
+
+describe('nakamotoCoefficient', () => {
+  it('counts the fewest UIDs holding more than half the weight', () => {
+    expect(nakamotoCoefficient([1, 1, 1, 1])).toBe(3);
+    expect(nakamotoCoefficient([6, 2, 2])).toBe(1);
+    // Exactly half is not a majority
+    expect(nakamotoCoefficient([5, 5])).toBe(2);
+  });
+
+  it('is 0 when nobody holds weight', () => {
+    expect(nakamotoCoefficient([0, 0])).toBe(0);
+    expect(nakamotoCoefficient([])).toBe(0);
+  });
+});
+
+describe('topShare', () => {
+  it('takes the largest weights whatever the order', () => {
+    expect(topShare([1, 3, 0, 4], 1)).toBeCloseTo(0.5);
+    expect(topShare([1, 3, 0, 4], 10)).toBe(1);
+    expect(topShare([0, 0], 1)).toBe(0);
+  });
+});
+
+describe('concentration', () => {
+  it('summarises the fixture', () => {
+    const result = concentration(models);
+    expect(result).toMatchObject({ nakamoto: 1, top5: 1, top10: 1, eligibleWeighted: 3, eligible: 3 });
+    expect(result.top1).toBeCloseTo(0.4125 / 0.8);
+    expect(result.gini).toBeGreaterThan(0);
+  });
+
+  it('counts eligible miners left without weight', () => {
+    const result = concentration([{ weight: 1, eligible: true }, { weight: 0, eligible: true }, { weight: 0, eligible: false }]);
+    expect(result).toMatchObject({ eligibleWeighted: 1, eligible: 2 });
+  });
+});
+
+describe('winnerHoldings', () => {
+  it('groups environments by winner, most first', () => {
+    const [first, second] = winnerHoldings(models, {
+      'affine:SAT': models[1].hotkey,
+      'affine:ABD': models[0].hotkey,
+      'affine:DED': models[1].hotkey,
+    });
+    expect(first).toMatchObject({ uid: models[1].uid, envs: ['affine:SAT', 'affine:DED'] });
+    expect(second).toMatchObject({ uid: models[0].uid, envs: ['affine:ABD'] });
+  });
+
+  it('keeps winners that are no longer registered', () => {
+    expect(winnerHoldings(models, { 'affine:SAT': '5Gone' })).toEqual([
+      { hotkey: '5Gone', uid: null, model: null, envs: ['affine:SAT'] },
+    ]);
+  });
+});
+
+describe('ageDistribution', () => {
+  it('buckets miners by days since their first block', () => {
+    expect(ageDistribution(models, data.block).map(b => b.count)).toEqual([1, 1, 2, 0, 0]);
+  });
+
+  it('uses the given block time', () => {
+    // Five times the block time makes every miner five times older
+    expect(ageDistribution(models, data.block, 60).map(b => b.count)).toEqual([1, 0, 1, 2, 0]);
+  });
+});
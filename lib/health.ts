@@ -0,0 +1,100 @@
+import { giniCoefficient } from './charts';
+import { ageInDays, type ModelRow } from './weights';
+
+// Network health metrics behind the health panel. The concentration metrics
+// only need weight and eligibility, so they also run over the per-miner slices
+// stored with every history snapshot.
+
+export interface Concentration {
+  // Of the weight, 0 (even split) to 1 (one miner holds it all)
+  gini: number;
+  // Fewest UIDs that together hold more than half the weight; 0 when nobody has any
+  nakamoto: number;
+  // Shares of the total weight, 0-1
+  top1: number;
+  top5: number;
+  top10: number;
+  // Eligible miners receiving any weight, out of all eligible miners
+  eligibleWeighted: number;
+  eligible: number;
+}
+
+// One environment winner and the environments they hold
+export interface WinnerHoldings {
+  hotkey: string;
+  // null when the winner is no longer in the rows
+  uid: number | null;
+  model: string | null;
+  envs: string[];
+}
+
+export interface AgeBucket {
+  label: string;
+  // Exclusive upper bound in days
+  maxDays: number;
+  count: number;
+}
+
+export const AGE_BUCKETS: Omit<AgeBucket, 'count'>[] = [
+  { label: '< 1d', maxDays: 1 },
+  { label: '1–7d', maxDays: 7 },
+  { label: '7–30d', maxDays: 30 },
+  { label: '30–90d', maxDays: 90 },
+  { label: '90d+', maxDays: Infinity },
+];
+
+const descending = (weights: number[]) => [...weights].sort((a, b) => b - a);
+
+export const nakamotoCoefficient = (weights: number[], threshold = 0.5) => {
+  const sorted = descending(weights);
+  const total = sorted.reduce((sum, w) => sum + w, 0);
+  if (total === 0) return 0;
+  let cumulative = 0;
+  const index = sorted.findIndex(w => (cumulative += w) > total * threshold);
+  return index + 1;
+};
+
+export const topShare = (weights: number[], n: number) => {
+  const sorted = descending(weights);
+  const total = sorted.reduce((sum, w) => sum + w, 0);
+  if (total === 0) return 0;
+  return sorted.slice(0, n).reduce((sum, w) => sum + w, 0) / total;
+};
+
+export const concentration = (miners: Pick<ModelRow, 'weight' | 'eligible'>[]): Concentration => {
+  const weights = miners.map(m => m.weight);
+  const eligible = miners.filter(m => m.eligible);
+  return {
+    gini: giniCoefficient(weights),
+    nakamoto: nakamotoCoefficient(weights),
+    top1: topShare(weights, 1),
+    top5: topShare(weights, 5),
+    top10: topShare(weights, 10),
+    eligibleWeighted: eligible.filter(m => m.weight > 0).length,
+    eligible: eligible.length,
+  };
+};
+
+// Most environments first; a winner holding several is a concentration signal too
+export const winnerHoldings = (models: ModelRow[], envWinners: Record<string, string>): WinnerHoldings[] => {
+  const byHotkey = new Map<string, string[]>();
+  Object.entries(envWinners).forEach(([env, hotkey]) => {
+    byHotkey.set(hotkey, [...(byHotkey.get(hotkey) ?? []), env]);
+  });
+  return Array.from(byHotkey.entries())
+    .map(([hotkey, envs]) => {
+      const model = models.find(m => m.hotkey === hotkey);
+      return { hotkey, uid: model?.uid ?? null, model: model?.model ?? null, envs };
+    })
+    .sort((a, b) => b.envs.length - a.envs.length || (a.uid ?? Infinity) - (b.uid ?? Infinity));
+};
+
+// Miners per age bucket, by blocks since their first commit
+export const ageDistribution = (models: ModelRow[], currentBlock: number, blockTimeSeconds?: number): AgeBucket[] => {
+  const buckets = AGE_BUCKETS.map(bucket => ({ ...bucket, count: 0 }));
+  models.forEach(m => {
+    const days = ageInDays(m.firstBlock, currentBlock, blockTimeSeconds);
+    (buckets.find(b => days < b.maxDays) ?? buckets[buckets.length - 1]).count++;
+  });
+  return buckets;
+};
@@ -0,0 +1,46 @@
+import { processSnapshot } from '@/lib/alerts';
+import { getWeights } from '@/lib/upstream';
+import { loadPreviousSnapshot, saveSnapshot } from './store';
+
+const DEFAULT_COLLECT_INTERVAL = 60000;
+
+// Anything that isn't a number falls back to the default; setInterval would treat NaN as ~1ms
+const collectInterval = () => {
+  const value = Number(process.env.HISTORY_COLLECT_INTERVAL);
+  return process.env.HISTORY_COLLECT_INTERVAL !== undefined && !isNaN(value) ? value : DEFAULT_COLLECT_INTERVAL;
+};
+
+let timer: ReturnType<typeof setInterval> | null = null;
+
+// Record the current weights if the block is new. Goes through the shared
+// upstream cache, so this never adds requests beyond what /api/weights makes.
+export const collectSnapshot = async () => {
+  const { entry: { value: data } } = await getWeights();
+  const recorded = await saveSnapshot(data);
+  if (recorded) {
+    // Alert rules run once per new block, against the block recorded before it
+    try {
+      await processSnapshot(await loadPreviousSnapshot(data.block), data);
+    } catch (error) {
+      console.error('Error processing alerts:', error);
+    }
+  }
+  return { block: data.block, recorded };
+};
+
+// Background polling for long-running servers; set HISTORY_COLLECT_INTERVAL=0 to disable
+export const startCollector = () => {
+  const interval = collectInterval();
+  if (timer || interval <= 0) return;
+
+  const tick = async () => {
+    try {
+      await collectSnapshot();
+    } catch (error) {
+      console.error('Error collecting snapshot:', error);
+    }
+  };
+
+  tick();
+  timer = setInterval(tick, interval);
+};
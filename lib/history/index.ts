@@ -0,0 +1,11 @@
+export type { SnapshotMeta, MinerPoint, MinerHistoryPoint, HealthPoint } from './types';
+export {
+  saveSnapshot,
+  loadSnapshot,
+  loadPreviousSnapshot,
+  listSnapshots,
+  getMinerHistory,
+  getHealthHistory,
+  getLatestBlock,
+} from './store';
+export { collectSnapshot, startCollector } from './collector';
@@ -0,0 +1,77 @@
+import { existsSync, mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { loadFixture } from '@/test/fixtures';
+import { validateWeightsData } from '@/lib/weights';
+
+const snapshot = validateWeightsData(loadFixture('weights/basic.json'));
+const at = (block: number) => ({ ...snapshot, block, timestamp: snapshot.timestamp + (block - 100) * 12 });
+
+let historyDir: string;
+
+// Fresh module state (HISTORY_DIR, the parsed snapshot cache) per load
+const loadStore = async () => {
+  vi.resetModules();
+  return import('./store');
+};
+
+beforeEach(() => {
+  historyDir = mkdtempSync(path.join(tmpdir(), 'history-store-'));
+  process.env.HISTORY_DIR = historyDir;
+});
+
+afterEach(() => {
+  rmSync(historyDir, { recursive: true, force: true });
+  delete process.env.HISTORY_DIR;
+  delete process.env.HISTORY_MAX_SNAPSHOTS;
+});
+
+describe('saveSnapshot', () => {
+  it('records each block once', async () => {
+    const { saveSnapshot, listSnapshots } = await loadStore();
+    expect(await saveSnapshot(at(100))).toBe(true);
+    expect(await saveSnapshot(at(100))).toBe(false);
+    expect(await listSnapshots()).toEqual([{ block: 100, timestamp: snapshot.timestamp }]);
+  });
+
+  it('records a block once when two saves race', async () => {
+    const { saveSnapshot } = await loadStore();
+    const results = await Promise.all([saveSnapshot(at(100)), saveSnapshot(at(100)), saveSnapshot(at(100))]);
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+    expect(readdirSync(historyDir)).toEqual(['100.json']);
+  });
+
+  it('prunes the oldest snapshots past the limit', async () => {
+    process.env.HISTORY_MAX_SNAPSHOTS = '2';
+    const { saveSnapshot, listSnapshots } = await loadStore();
+    for (const block of [100, 200, 300]) await saveSnapshot(at(block));
+
+    expect((await listSnapshots()).map(s => s.block)).toEqual([200, 300]);
+    expect(existsSync(path.join(historyDir, '100.json'))).toBe(false);
+  });
+});
+
+describe('getMinerHistory', () => {
+  it('lists one UID oldest first, skipping blocks it was absent from', async () => {
+    const { saveSnapshot, getMinerHistory } = await loadStore();
+    const withoutUid47 = { ...at(300), data: { ...snapshot.data, rows: snapshot.data.rows.filter(row => row[0] !== 47) } };
+    await saveSnapshot(at(200));
+    await saveSnapshot(at(100));
+    await saveSnapshot(withoutUid47);
+
+    const series = await getMinerHistory(47);
+    expect(series.map(p => p.block)).toEqual([100, 200]);
+    expect(series[0]).toMatchObject({ uid: 47, weight: 0.2318, totalPoints: 4, eligible: true });
+    expect((await getMinerHistory(47, 150)).map(p => p.block)).toEqual([200]);
+  });
+
+  it('reads snapshots recorded by an earlier process', async () => {
+    await (await loadStore()).saveSnapshot(at(100));
+    const { getMinerHistory, getLatestBlock } = await loadStore();
+
+    expect((await getMinerHistory(12)).map(p => p.weight)).toEqual([0.4125]);
+    expect(await getLatestBlock()).toBe(100);
+  });
+});
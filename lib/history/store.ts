@@ -0,0 +1,139 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { concentration } from '@/lib/health';
+import { parseModels, type WeightsData } from '@/lib/weights';
+import type { HealthPoint, MinerHistoryPoint, MinerPoint, SnapshotMeta } from './types';
+
+const HISTORY_DIR = process.env.HISTORY_DIR || path.join(process.cwd(), '.data', 'history');
+// Oldest snapshots are pruned once this many are on disk
+const MAX_SNAPSHOTS = Number(process.env.HISTORY_MAX_SNAPSHOTS) || 1000;
+
+// Parsed snapshots, keyed by block. Files on disk are immutable once written,
+// so entries never go stale; they only disappear when a snapshot is pruned.
+const pointsCache = new Map<number, { meta: SnapshotMeta; points: MinerPoint[] }>();
+
+const snapshotPath = (block: number) => path.join(HISTORY_DIR, `${block}.json`);
+
+const toPoints = (data: WeightsData): MinerPoint[] =>
+  parseModels(data).map(m => ({
+    uid: m.uid,
+    hotkey: m.hotkey,
+    weight: m.weight,
+    totalPoints: m.totalPoints,
+    layerPoints: m.layerPoints,
+    eligible: m.eligible,
+  }));
+
+const listBlocks = async (): Promise<number[]> => {
+  try {
+    const files = await fs.readdir(HISTORY_DIR);
+    return files
+      .filter(f => /^\d+\.json$/.test(f))
+      .map(f => parseInt(f))
+      .sort((a, b) => a - b);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+};
+
+export const loadSnapshot = async (block: number): Promise<WeightsData | null> => {
+  try {
+    return JSON.parse(await fs.readFile(snapshotPath(block), 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+};
+
+const loadPoints = async (block: number) => {
+  const cached = pointsCache.get(block);
+  if (cached) return cached;
+
+  const data = await loadSnapshot(block);
+  if (!data) return null;
+
+  const entry = { meta: { block: data.block, timestamp: data.timestamp }, points: toPoints(data) };
+  pointsCache.set(block, entry);
+  return entry;
+};
+
+const prune = async (blocks: number[]) => {
+  const excess = blocks.slice(0, Math.max(0, blocks.length - MAX_SNAPSHOTS));
+  await Promise.all(excess.map(async block => {
+    pointsCache.delete(block);
+    await fs.rm(snapshotPath(block), { force: true });
+  }));
+};
+
+// Returns false when the block is already recorded
+export const saveSnapshot = async (data: WeightsData): Promise<boolean> => {
+  const blocks = await listBlocks();
+  if (blocks.includes(data.block)) return false;
+
+  await fs.mkdir(HISTORY_DIR, { recursive: true });
+  // Write to a file of our own, then link it into place so readers never see a
+  // half-written file. Linking fails if a concurrent save of the same block won.
+  const tmp = `${snapshotPath(data.block)}.${randomUUID()}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(data));
+  try {
+    await fs.link(tmp, snapshotPath(data.block));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') return false;
+    throw error;
+  } finally {
+    await fs.rm(tmp, { force: true });
+  }
+
+  pointsCache.set(data.block, {
+    meta: { block: data.block, timestamp: data.timestamp },
+    points: toPoints(data),
+  });
+  await prune([...blocks, data.block]);
+  return true;
+};
+
+export const listSnapshots = async (fromBlock = 0): Promise<SnapshotMeta[]> => {
+  const metas: SnapshotMeta[] = [];
+  for (const block of await listBlocks()) {
+    if (block < fromBlock) continue;
+    const entry = await loadPoints(block);
+    if (entry) metas.push(entry.meta);
+  }
+  return metas;
+};
+
+// Time series for one UID, oldest first. Blocks where the UID was absent are skipped.
+export const getMinerHistory = async (uid: number, fromBlock = 0): Promise<MinerHistoryPoint[]> => {
+  const series: MinerHistoryPoint[] = [];
+  for (const block of await listBlocks()) {
+    if (block < fromBlock) continue;
+    const entry = await loadPoints(block);
+    const point = entry?.points.find(p => p.uid === uid);
+    if (entry && point) series.push({ ...entry.meta, ...point });
+  }
+  return series;
+};
+
+// Concentration metrics for every recorded block, oldest first
+export const getHealthHistory = async (fromBlock = 0): Promise<HealthPoint[]> => {
+  const series: HealthPoint[] = [];
+  for (const block of await listBlocks()) {
+    if (block < fromBlock) continue;
+    const entry = await loadPoints(block);
+    if (entry) series.push({ ...entry.meta, ...concentration(entry.points) });
+  }
+  return series;
+};
+
+// The most recent snapshot recorded before `block`, if any
+export const loadPreviousSnapshot = async (block: number): Promise<WeightsData | null> => {
+  const earlier = (await listBlocks()).filter(b => b < block);
+  return earlier.length > 0 ? loadSnapshot(earlier[earlier.length - 1]) : null;
+};
+
+export const getLatestBlock = async (): Promise<number | null> => {
+  const blocks = await listBlocks();
+  return blocks.length > 0 ? blocks[blocks.length - 1] : null;
+};
@@ -0,0 +1,21 @@
+import type { Concentration } from '@/lib/health';
+
+export interface SnapshotMeta {
+  block: number;
+  timestamp: number;
+}
+
+// The per-miner slice of a snapshot that the history endpoints serve
+export interface MinerPoint {
+  uid: number;
+  hotkey: string;
+  weight: number;
+  totalPoints: number;
+  layerPoints: Record<string, number>;
+  eligible: boolean;
+}
+
+export type MinerHistoryPoint = SnapshotMeta & MinerPoint;
+
+// Network concentration at one recorded block
+export type HealthPoint = SnapshotMeta & Concentration;
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { loadFixture } from '@/test/fixtures';
+import { parseModels, validateWeightsData } from './weights';
+import { EMPTY_FILTER } from './filters';
+import { DEFAULT_QUERY, filterModels, sortModels } from './leaderboard';
+
+const models = parseModels(validateWeightsData(loadFixture('weights/basic.json')));
+const uids = (rows: { uid: number }[]) => rows.map(r => r.uid);
+
+describe('sortModels', () => {
+  it('sorts numeric fields in either direction', () => {
+    expect(uids(sortModels(models, 'weight', 'desc'))).toEqual([12, 47, 88, 203]);
+    expect(uids(sortModels(models, 'uid', 'asc'))).toEqual([12, 47, 88, 203]);
+    expect(uids(sortModels(models, 'firstBlock', 'asc'))).toEqual([88, 12, 47, 203]);
+  });
+
+  it('sorts an environment by accuracy with missing scores last', () => {
+    expect(uids(sortModels(models, 'env:affine:DED', 'desc'))).toEqual([88, 12, 47, 203]);
+  });
+
+  it('ranks by lower bound in lower score mode', () => {
+    expect(uids(sortModels(models, 'avgEnvScore', 'desc', 'lower')).slice(-1)).toEqual([203]);
+  });
+});
+
+describe('filterModels', () => {
+  it('matches search against model, hotkey and UID', () => {
+    expect(uids(filterModels(models, { ...DEFAULT_QUERY, search: 'LLAMA' }))).toEqual([88]);
+    expect(uids(filterModels(models, { ...DEFAULT_QUERY, search: '203' }))).toEqual([203]);
+  });
+
+  it('keeps eligible miners on the eligible tab', () => {
+    expect(uids(filterModels(models, { ...DEFAULT_QUERY, tab: 'eligible' }))).toEqual([12, 47, 88]);
+  });
+
+  it('applies the advanced filter', () => {
+    const filter = { ...EMPTY_FILTER, weight: { min: 0.2 } };
+    expect(uids(filterModels(models, { ...DEFAULT_QUERY, filter }))).toEqual([12, 47]);
+  });
+});
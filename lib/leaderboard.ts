@@ -0,0 +1,100 @@
+import { avgLowerBound, envLowerBound, parseEnvScore, type ModelRow } from '@/lib/weights';
+import { applyAdvancedFilter, EMPTY_FILTER, type AdvancedFilter } from '@/lib/filters';
+import type { LeaderboardTab, ScoreMode, SortDirection } from '@/lib/view-state';
+
+// Sorting and filtering behind the leaderboard table, shared with the CLI
+
+export interface LeaderboardQuery {
+  search: string;
+  tab: LeaderboardTab;
+  filter: AdvancedFilter;
+  // Needed for the age filter
+  currentBlock: number;
+  blockTimeSeconds?: number;
+}
+
+export const DEFAULT_QUERY: LeaderboardQuery = {
+  search: '',
+  tab: 'all',
+  filter: EMPTY_FILTER,
+  currentBlock: 0,
+};
+
+// Fields the table can sort by besides 'env:<environment>'
+export const SORT_FIELDS = ['uid', 'model', 'totalPoints', 'avgEnvScore', 'totalSamples', 'weight', 'earnings', 'firstBlock'];
+
+// `field` is a ModelRow key, 'earnings', or 'env:<environment>'
+export const sortModels = (
+  models: ModelRow[],
+  field: string,
+  direction: SortDirection,
+  scoreMode: ScoreMode = 'mean'
+) => {
+  return [...models].sort((a, b) => {
+    let aVal: any = a[field as keyof ModelRow];
+    let bVal: any = b[field as keyof ModelRow];
+
+    // Environment columns sort by parsed accuracy (or its lower bound), missing scores lowest
+    if (field.startsWith('env:')) {
+      const env = field.slice(4);
+      const envScore = scoreMode === 'lower' ? envLowerBound : parseEnvScore;
+      const aScore = envScore(a.environments[env]) ?? -Infinity;
+      const bScore = envScore(b.environments[env]) ?? -Infinity;
+      if (aScore === bScore) return 0;
+      return direction === 'asc' ? aScore - bScore : bScore - aScore;
+    }
+
+    // Estimated earnings are proportional to weight
+    if (field === 'earnings') {
+      aVal = a.weight;
+      bVal = b.weight;
+    }
+
+    // Special handling for avgEnvScore to treat null as -Infinity (lowest value)
+    if (field === 'avgEnvScore') {
+      if (scoreMode === 'lower') {
+        aVal = avgLowerBound(a);
+        bVal = avgLowerBound(b);
+      }
+      const aScore = aVal !== null ? aVal : -Infinity;
+      const bScore = bVal !== null ? bVal : -Infinity;
+      return direction === 'asc' ? aScore - bScore : bScore - aScore;
+    }
+
+    if (typeof aVal === 'string') aVal = aVal.toLowerCase();
+    if (typeof bVal === 'string') bVal = bVal.toLowerCase();
+
+    if (aVal === undefined || aVal === null) aVal = 0;
+    if (bVal === undefined || bVal === null) bVal = 0;
+
+    if (typeof aVal === 'number' && typeof bVal === 'number') {
+      return direction === 'asc' ? aVal - bVal : bVal - aVal;
+    }
+
+    return direction === 'asc'
+      ? String(aVal).localeCompare(String(bVal))
+      : String(bVal).localeCompare(String(aVal));
+  });
+};
+
+export const filterModels = (models: ModelRow[], query: LeaderboardQuery) => {
+  let filtered = models;
+
+  // Apply search filter
+  if (query.search) {
+    const search = query.search.toLowerCase();
+    filtered = filtered.filter(item =>
+      item.model.toLowerCase().includes(search) ||
+      item.hotkey.toLowerCase().includes(search) ||
+      item.uid.toString().includes(query.search)
+    );
+  }
+
+  // Apply tab filter
+  if (query.tab === 'eligible') {
+    filtered = filtered.filter(item => item.eligible);
+  }
+
+  // Apply advanced filters
+  return applyAdvancedFilter(filtered, query.filter, query.currentBlock, query.blockTimeSeconds);
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { loadFixture } from '@/test/fixtures';
+import { parseModels, validateWeightsData, type ModelRow } from '@/lib/weights';
+import { clusterModels, normalizeModelName } from './lineage';
+
+const models = parseModels(validateWeightsData(loadFixture('weights/basic.json')));
+
+const row = (uid: number, model: string, revision: string, firstBlock: number, hotkey = `hk${uid}`): ModelRow => ({
+  ...models[0],
+  uid,
+  hotkey,
+  model,
+  revision,
+  firstBlock,
+});
+
+describe('normalizeModelName', () => {
+  it('drops the org, case, separators and fork suffixes', () => {
+    expect(normalizeModelName('Org/Qwen3_8B-Reason-fork')).toBe('qwen3-8b-reason');
+    expect(normalizeModelName('someone/qwen3-8b-reason-v2-copy')).toBe('qwen3-8b-reason');
+    expect(normalizeModelName('plain')).toBe('plain');
+  });
+});
+
+describe('clusterModels', () => {
+  it('groups a fork with its original and flags the shared revision', () => {
+    const [cluster, ...rest] = clusterModels(models);
+    expect(rest).toHaveLength(0);
+    expect(cluster.key).toBe('qwen3-8b-reason');
+    expect(cluster.members.map(m => m.uid)).toEqual([12, 47]);
+    expect(cluster.repos).toEqual(['affine-labs/qwen3-8b-reason', 'affine-labs/qwen3-8b-reason-fork']);
+    expect(cluster.duplicateRevisions).toEqual([{
+      revision: '7c1e9a0b52d34f6e8a9b0c1d2e3f4a5b6c7d8e9f',
+      hotkeys: [models[0].hotkey, models[1].hotkey],
+      uids: [12, 47],
+    }]);
+  });
+
+  it('links rows transitively through names and revisions', () => {
+    const clusters = clusterModels([
+      row(3, 'c/other-name', 'rev-b', 300),
+      row(1, 'a/base', 'rev-a', 100),
+      row(2, 'b/base-fork', 'rev-b', 200),
+      row(4, 'd/unrelated', 'rev-c', 50),
+    ]);
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].members.map(m => m.uid)).toEqual([1, 2, 3]);
+    expect(clusters[0].key).toBe('base');
+  });
+
+  it('does not flag a revision resubmitted by the same hotkey', () => {
+    const [cluster] = clusterModels([
+      row(1, 'a/base', 'rev-a', 100, 'same'),
+      row(2, 'a/base', 'rev-a', 200, 'same'),
+    ]);
+    expect(cluster.duplicateRevisions).toEqual([]);
+  });
+});
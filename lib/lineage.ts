@@ -0,0 +1,90 @@
+// Groups leaderboard rows into model lineages: rows are linked when they share
+// a normalized model name or an exact revision, and linked rows form one
+// cluster. Within a cluster the earliest firstBlock is treated as the original.
+import type { ModelRow } from '@/lib/weights';
+
+export interface DuplicateRevision {
+  revision: string;
+  // Distinct hotkeys that submitted it, earliest first
+  hotkeys: string[];
+  uids: number[];
+}
+
+export interface ModelCluster {
+  // Normalized name of the earliest submission
+  key: string;
+  // Sorted by firstBlock, then UID
+  members: ModelRow[];
+  repos: string[];
+  duplicateRevisions: DuplicateRevision[];
+}
+
+// Trailing tokens that forks commonly append to a repo name
+const FORK_SUFFIX = /-(fork|copy|clone|v\d+)$/;
+
+// "Org/Qwen3_8B-Reason-fork" -> "qwen3-8b-reason"
+export const normalizeModelName = (model: string) => {
+  let name = (model.split('/').pop() || '').toLowerCase().replace(/[\s_.]+/g, '-');
+  while (FORK_SUFFIX.test(name)) name = name.replace(FORK_SUFFIX, '');
+  return name;
+};
+
+const byFirstBlock = (a: ModelRow, b: ModelRow) => a.firstBlock - b.firstBlock || a.uid - b.uid;
+
+export const findDuplicateRevisions = (members: ModelRow[]): DuplicateRevision[] => {
+  const byRevision = new Map<string, ModelRow[]>();
+  members.forEach(m => {
+    if (!m.revision) return;
+    byRevision.set(m.revision, [...(byRevision.get(m.revision) || []), m]);
+  });
+
+  return Array.from(byRevision.entries())
+    .map(([revision, rows]) => {
+      const sorted = [...rows].sort(byFirstBlock);
+      return {
+        revision,
+        hotkeys: sorted.map(m => m.hotkey).filter((h, i, all) => all.indexOf(h) === i),
+        uids: sorted.map(m => m.uid),
+      };
+    })
+    .filter(d => d.hotkeys.length > 1);
+};
+
+// Only clusters with more than one row are returned, largest first
+export const clusterModels = (models: ModelRow[]): ModelCluster[] => {
+  // Union-find over row indexes
+  const parent = models.map((_, i) => i);
+  const find = (i: number): number => parent[i] === i ? i : (parent[i] = find(parent[i]));
+  const union = (a: number, b: number) => { parent[find(a)] = find(b); };
+
+  const firstSeen = new Map<string, number>();
+  const link = (key: string, i: number) => {
+    const seen = firstSeen.get(key);
+    if (seen === undefined) firstSeen.set(key, i);
+    else union(seen, i);
+  };
+  models.forEach((m, i) => {
+    const name = normalizeModelName(m.model);
+    if (name) link(`name:${name}`, i);
+    if (m.revision) link(`rev:${m.revision}`, i);
+  });
+
+  const groups = new Map<number, ModelRow[]>();
+  models.forEach((m, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) || []), m]);
+  });
+
+  return Array.from(groups.values())
+    .filter(members => members.length > 1)
+    .map(members => {
+      const sorted = [...members].sort(byFirstBlock);
+      return {
+        key: normalizeModelName(sorted[0].model),
+        members: sorted,
+        repos: sorted.map(m => m.model).filter((r, i, all) => all.indexOf(r) === i),
+        duplicateRevisions: findDuplicateRevisions(sorted),
+      };
+    })
+    .sort((a, b) => b.members.length - a.members.length || byFirstBlock(a.members[0], b.members[0]));
+};
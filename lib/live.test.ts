@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { reconnectDelay } from './live';
+
+describe('reconnectDelay', () => {
+  it('doubles per attempt up to the cap', () => {
+    const noJitter = () => 0;
+    expect([0, 1, 2, 3].map(a => reconnectDelay(a, noJitter))).toEqual([1000, 2000, 4000, 8000]);
+    expect(reconnectDelay(10, noJitter)).toBe(30000);
+  });
+
+  it('adds at most 20% jitter', () => {
+    expect(reconnectDelay(2, () => 1)).toBe(4800);
+  });
+});
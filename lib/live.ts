@@ -0,0 +1,18 @@
+// Client side of the /api/stream connection
+
+// connecting: no event yet; connected: events arriving; stale: the stream is
+// up but upstream is failing or has gone quiet; disconnected: waiting to retry;
+// polling: no EventSource in this browser, so the page refetches on a timer
+export type LiveStatus = 'connecting' | 'connected' | 'stale' | 'disconnected' | 'polling';
+
+// No event at all (pings included) for this long means the data may be outdated
+export const STALE_AFTER_MS = 45000;
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+// Exponential backoff with up to 20% jitter so tabs don't reconnect in lockstep
+export const reconnectDelay = (attempt: number, random = Math.random) => {
+  const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempt);
+  return Math.round(delay * (1 + 0.2 * random()));
+};
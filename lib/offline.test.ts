@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { loadFixture } from '@/test/fixtures';
+import { validateWeightsData } from './weights';
+import { formatAge, loadLastGood, saveLastGood } from './offline';
+
+describe('formatAge', () => {
+  it('picks the largest useful unit', () => {
+    expect(formatAge(0)).toBe('0s');
+    expect(formatAge(59_999)).toBe('59s');
+    expect(formatAge(5 * 60_000)).toBe('5m');
+    expect(formatAge((2 * 60 + 5) * 60_000)).toBe('2h 5m');
+    expect(formatAge((26 * 60) * 60_000)).toBe('1d 2h');
+  });
+
+  it('treats clock skew as just now', () => {
+    expect(formatAge(-5000)).toBe('0s');
+  });
+});
+
+describe('last-good snapshot', () => {
+  it('is a no-op without IndexedDB', async () => {
+    await expect(saveLastGood(validateWeightsData(loadFixture('weights/basic.json')))).resolves.toBeUndefined();
+    await expect(loadLastGood()).resolves.toBeNull();
+  });
+});
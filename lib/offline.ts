@@ -0,0 +1,71 @@
+import { MAINNET_ID } from './config';
+import { validateWeightsData, type WeightsData } from './weights';
+
+// Last-known-good weights payload kept in IndexedDB, so a reload while the
+// network or upstream is down still renders the leaderboard
+
+export interface CachedWeights {
+  data: WeightsData;
+  // ms since epoch when the payload was received
+  savedAt: number;
+}
+
+const DB_NAME = 'af-leaderboard';
+const STORE = 'snapshots';
+
+// One payload per deployment; mainnet keeps the key used before deployments existed
+const lastGoodKey = (deployment: string) => deployment === MAINNET_ID ? 'last-good' : `last-good:${deployment}`;
+
+const openDb = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const run = async <T>(mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = op(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+// Both helpers are best-effort: private browsing and SSR have no IndexedDB
+export const saveLastGood = async (data: WeightsData, deployment = MAINNET_ID, savedAt = Date.now()) => {
+  if (typeof indexedDB === 'undefined') return;
+  try {
+    await run('readwrite', store => store.put({ data, savedAt } satisfies CachedWeights, lastGoodKey(deployment)));
+  } catch (error) {
+    console.error('Error saving weights snapshot:', error);
+  }
+};
+
+export const loadLastGood = async (deployment = MAINNET_ID): Promise<CachedWeights | null> => {
+  if (typeof indexedDB === 'undefined') return null;
+  try {
+    const cached = await run<CachedWeights | undefined>('readonly', store => store.get(lastGoodKey(deployment)));
+    if (!cached || typeof cached.savedAt !== 'number') return null;
+    // A payload saved by an older build may no longer match the schema
+    return { data: validateWeightsData(cached.data), savedAt: cached.savedAt };
+  } catch (error) {
+    console.error('Error loading weights snapshot:', error);
+    return null;
+  }
+};
+
+// Compact "how long ago" label for the degraded-state banner
+export const formatAge = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+};
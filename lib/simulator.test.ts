@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { loadFixture } from '@/test/fixtures';
+import { getLayerColumns, parseModels, validateWeightsData, type ModelRow } from './weights';
+import {
+  HYPOTHETICAL_UID,
+  eligibilityThresholds,
+  fitWeightCurve,
+  simulate,
+  type Hypothetical
+} from './simulator';
+
+const data = validateWeightsData(loadFixture('weights/basic.json'));
+const models = parseModels(data);
+const environments = data.data.environments;
+const layers = getLayerColumns(data.data.header);
+
+const hypothetical = (scores: Record<string, number | null>, replaceUid: number | null = null): Hypothetical => ({
+  scores,
+  samples: Object.fromEntries(environments.map(env => [env, 5000])),
+  replaceUid,
+});
+
+describe('simulate', () => {
+  it('reconstructs the current env winners', () => {
+    const { envWinners } = simulate(models, environments, layers, null);
+    const byHotkey = new Map(models.map(m => [m.hotkey, m.uid]));
+    const expected = Object.fromEntries(
+      Object.entries(data.data.env_winners).map(([env, hotkey]) => [env, byHotkey.get(hotkey)])
+    );
+    expect(envWinners).toEqual(expected);
+  });
+
+  it('reproduces the current layer points and totals when replaying the field', () => {
+    const { miners } = simulate(models, environments, layers, null);
+    expect(Object.keys(miners[0].layerPoints)).toEqual(['L3', 'L4', 'L5', 'L6', 'L7', 'L8']);
+    models.forEach(model => {
+      expect(miners.find(m => m.uid === model.uid)).toMatchObject({
+        layerPoints: model.layerPoints,
+        totalPoints: model.totalPoints,
+      });
+    });
+    expect(miners.map(m => m.uid)).toEqual([12, 47, 88, 203]);
+    expect(miners.find(m => m.uid === 203)!.weight).toBe(0);
+  });
+
+  it('moves contest points to whoever takes the contest', () => {
+    // Beats UID 47 on ABD only, taking its one contest and all of its points
+    const { miners } = simulate(models, environments, layers, hypothetical({
+      'affine:SAT': 10,
+      'affine:ABD': 80,
+      'affine:DED': 10,
+    }));
+    expect(miners.find(m => m.uid === HYPOTHETICAL_UID)).toMatchObject({
+      totalPoints: 4,
+      layerPoints: { L3: 1, L4: 1, L5: 2 },
+    });
+    expect(miners.find(m => m.uid === 47)!.totalPoints).toBe(0);
+    expect(miners.find(m => m.uid === 12)!.totalPoints).toBe(9);
+  });
+
+  it('projects a stronger newcomer displacing winners', () => {
+    const result = simulate(models, environments, layers, hypothetical({
+      'affine:SAT': 90,
+      'affine:ABD': 73,
+      'affine:DED': 60,
+    }));
+    expect(result.envWinners['affine:SAT']).toBe(HYPOTHETICAL_UID);
+    expect(result.envWinners['affine:DED']).toBe(88);
+    expect(result.miners.find(m => m.uid === HYPOTHETICAL_UID)!.weight).toBeGreaterThan(0);
+  });
+
+  it('needs the margin to take a contest from an earlier miner', () => {
+    const result = simulate(models, environments, layers, hypothetical({
+      'affine:SAT': 84.5,
+      'affine:ABD': 0,
+      'affine:DED': 0,
+    }), 0.5);
+    expect(result.envWinners['affine:SAT']).toBe(12);
+  });
+
+  it('leaves out the miner being replaced', () => {
+    const { miners } = simulate(models, environments, layers, hypothetical({ 'affine:SAT': 50, 'affine:ABD': 50, 'affine:DED': 50 }, 12));
+    expect(miners.some(m => m.uid === 12)).toBe(false);
+  });
+
+  it('makes a hypothetical without every env ineligible', () => {
+    const { miners, envWinners } = simulate(models, environments, layers, hypothetical({
+      'affine:SAT': 99,
+      'affine:ABD': 99,
+      'affine:DED': null,
+    }));
+    const projected = miners.find(m => m.uid === HYPOTHETICAL_UID)!;
+    expect(projected).toMatchObject({ eligible: false, totalPoints: 0, weight: 0 });
+    expect(envWinners['affine:SAT']).toBe(12);
+  });
+});
+
+describe('fitWeightCurve', () => {
+  const row = (uid: number, totalPoints: number, weight: number): ModelRow => ({
+    ...models[0], uid, totalPoints, weight, eligible: true,
+  });
+
+  it('recovers the exponent and distributed share', () => {
+    const curve = fitWeightCurve([row(1, 16, 0.4), row(2, 4, 0.2), row(3, 1, 0.1)]);
+    expect(curve.exponent).toBeCloseTo(0.5);
+    expect(curve.distributed).toBeCloseTo(0.7);
+  });
+
+  it('falls back to proportional weights without enough data', () => {
+    expect(fitWeightCurve([row(1, 4, 0.5)]).exponent).toBe(1);
+  });
+});
+
+describe('eligibilityThresholds', () => {
+  it('uses the fewest samples among eligible miners', () => {
+    expect(eligibilityThresholds(models, environments)).toEqual({
+      'affine:SAT': 1010,
+      'affine:ABD': 960,
+      'affine:DED': 870,
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import { parseEnvCell, type ModelRow } from './weights';
+
+// What-if model of the point and weight allocation. It is a reconstruction
+// from the public table, not the validator's code:
+//
+// - Every non-empty subset of environments is a contest. Its winner is the
+//   eligible miner with the best mean accuracy over the subset, but a miner
+//   registered later has to beat the holder by `margin` points to take it.
+// - The table doesn't say which contest pays into which layer, so points are
+//   calibrated on the current field: replaying it, each miner's L3-L8 points
+//   and total are split evenly over the contests it wins, and a contest keeps
+//   that award whoever takes it. Points of a miner that wins nothing in the
+//   replay stay with it. Replaying the field unchanged reproduces the table.
+// - Weight share grows with total points as points^exponent, with the
+//   exponent and the distributed share fitted to the current field.
+
+export const DEFAULT_MARGIN = 0.5;
+
+// Stands in for the hypothetical miner in results
+export const HYPOTHETICAL_UID = -1;
+
+// More environments than this would mean an unreasonable number of contests
+const MAX_ENVIRONMENTS = 12;
+
+export interface Hypothetical {
+  // Accuracy (0-100) per environment; null means no score there
+  scores: Record<string, number | null>;
+  samples: Record<string, number>;
+  // Field miner the hypothetical takes over from, e.g. a new checkpoint
+  replaceUid: number | null;
+}
+
+export interface SimulatedMiner {
+  uid: number;
+  layerPoints: Record<string, number>;
+  totalPoints: number;
+  eligible: boolean;
+  // Projected share of the total weight, 0-1
+  weight: number;
+}
+
+export interface WeightCurve {
+  exponent: number;
+  // Weight held by eligible miners with points; the rest is not modelled
+  distributed: number;
+}
+
+export interface Simulation {
+  // Highest projected weight first
+  miners: SimulatedMiner[];
+  // Single-environment contest winners by UID; null when nobody qualifies
+  envWinners: Record<string, number | null>;
+  curve: WeightCurve;
+}
+
+interface Competitor {
+  uid: number;
+  firstBlock: number;
+  eligible: boolean;
+  scores: Record<string, number | null>;
+}
+
+interface Award {
+  layerPoints: Record<string, number>;
+  totalPoints: number;
+}
+
+// Split awards leave fractions; rounding keeps replayed totals exact
+const round = (n: number) => Math.round(n * 1e6) / 1e6;
+
+// Least-squares fit of log(weight) against log(points) over miners holding both
+export const fitWeightCurve = (models: ModelRow[]): WeightCurve => {
+  const paid = models.filter(m => m.eligible && m.totalPoints > 0 && m.weight > 0);
+  const distributed = paid.reduce((sum, m) => sum + m.weight, 0) || 1;
+  const xs = paid.map(m => Math.log(m.totalPoints));
+  const ys = paid.map(m => Math.log(m.weight));
+  const meanX = xs.reduce((a, b) => a + b, 0) / (xs.length || 1);
+  const meanY = ys.reduce((a, b) => a + b, 0) / (ys.length || 1);
+  const sxx = xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0);
+  // Without at least two distinct point totals there is nothing to fit
+  if (sxx === 0) return { exponent: 1, distributed };
+  const sxy = xs.reduce((sum, x, i) => sum + (x - meanX) * (ys[i] - meanY), 0);
+  return { exponent: Math.min(Math.max(sxy / sxx, 0), 3), distributed };
+};
+
+// Fewest samples any eligible miner has per environment, used as the bar a
+// hypothetical miner must clear to be eligible
+export const eligibilityThresholds = (models: ModelRow[], environments: string[]) =>
+  Object.fromEntries(environments.map(env => {
+    const samples = models
+      .filter(m => m.eligible)
+      .map(m => parseEnvCell(m.environments[env] || '').samples);
+    return [env, samples.length > 0 ? Math.min(...samples) : 0];
+  })) as Record<string, number>;
+
+export const isHypotheticalEligible = (
+  hypothetical: Hypothetical,
+  thresholds: Record<string, number>
+) => Object.entries(thresholds).every(([env, minSamples]) =>
+  hypothetical.scores[env] !== null && hypothetical.scores[env] !== undefined &&
+  (hypothetical.samples[env] ?? 0) >= minSamples
+);
+
+const contestWinner = (competitors: Competitor[], envs: string[], margin: number) => {
+  const mean = (c: Competitor) => envs.reduce((sum, env) => sum + (c.scores[env] ?? 0), 0) / envs.length;
+  let holder: Competitor | null = null;
+  for (const c of competitors) {
+    if (!c.eligible || envs.some(env => c.scores[env] === null || c.scores[env] === undefined)) continue;
+    if (!holder || mean(c) > mean(holder) + margin) holder = c;
+  }
+  return holder;
+};
+
+// Earliest registration holds a contest first
+const byRegistration = (a: Competitor, b: Competitor) => a.firstBlock - b.firstBlock || a.uid - b.uid;
+
+const toCompetitor = (m: ModelRow, envs: string[]): Competitor => ({
+  uid: m.uid,
+  firstBlock: m.firstBlock,
+  eligible: m.eligible,
+  scores: Object.fromEntries(envs.map(env => [env, parseEnvCell(m.environments[env] || '').accuracy])),
+});
+
+// Winner UID per contest, keyed by the subset's bitmask over `envs`
+const runContests = (competitors: Competitor[], envs: string[], margin: number) => {
+  const winners = new Map<number, number>();
+  for (let mask = 1; mask < 1 << envs.length; mask++) {
+    const winner = contestWinner(competitors, envs.filter((_, i) => mask & (1 << i)), margin);
+    if (winner) winners.set(mask, winner.uid);
+  }
+  return winners;
+};
+
+// What each contest pays, and the points that stay with their miner
+const calibrate = (models: ModelRow[], envs: string[], layers: string[], margin: number) => {
+  const baseline = runContests(models.map(m => toCompetitor(m, envs)).sort(byRegistration), envs, margin);
+  const won = new Map<number, number[]>();
+  baseline.forEach((uid, mask) => won.set(uid, [...(won.get(uid) ?? []), mask]));
+
+  const contests = new Map<number, Award>();
+  const remainders = new Map<number, Award>();
+  models.forEach(m => {
+    const masks = won.get(m.uid) ?? [];
+    const share = 1 / (masks.length || 1);
+    const award = {
+      layerPoints: Object.fromEntries(layers.map(layer => [layer, (m.layerPoints[layer] || 0) * share])),
+      totalPoints: m.totalPoints * share,
+    };
+    if (masks.length === 0) remainders.set(m.uid, award);
+    masks.forEach(mask => contests.set(mask, award));
+  });
+  return { contests, remainders };
+};
+
+export const simulate = (
+  models: ModelRow[],
+  environments: string[],
+  // Layer columns from the header, e.g. L3-L8
+  layers: string[],
+  hypothetical: Hypothetical | null,
+  margin = DEFAULT_MARGIN
+): Simulation => {
+  const envs = environments.slice(0, MAX_ENVIRONMENTS);
+  const curve = fitWeightCurve(models);
+  const { contests, remainders } = calibrate(models, envs, layers, margin);
+
+  const competitors: Competitor[] = models
+    .filter(m => !hypothetical || m.uid !== hypothetical.replaceUid)
+    .map(m => toCompetitor(m, envs));
+  if (hypothetical) {
+    competitors.push({
+      uid: HYPOTHETICAL_UID,
+      // Registers after everyone, so it never wins a tie
+      firstBlock: Infinity,
+      eligible: isHypotheticalEligible(hypothetical, eligibilityThresholds(models, envs)),
+      scores: hypothetical.scores,
+    });
+  }
+  competitors.sort(byRegistration);
+
+  const winners = runContests(competitors, envs, margin);
+  const envWinners: Record<string, number | null> = Object.fromEntries(
+    envs.map((env, i) => [env, winners.get(1 << i) ?? null])
+  );
+
+  const points = new Map<number, Award>(competitors.map(c => [c.uid, {
+    layerPoints: Object.fromEntries(layers.map(layer => [layer, 0])),
+    totalPoints: 0,
+  }]));
+  const add = (uid: number, award: Award | undefined) => {
+    if (!award) return;
+    const target = points.get(uid)!;
+    layers.forEach(layer => { target.layerPoints[layer] += award.layerPoints[layer]; });
+    target.totalPoints += award.totalPoints;
+  };
+  competitors.forEach(c => add(c.uid, remainders.get(c.uid)));
+  winners.forEach((uid, mask) => add(uid, contests.get(mask)));
+
+  // Unscaled share; zero points earn nothing even when the exponent is 0
+  const strength = (c: Competitor) => {
+    const total = round(points.get(c.uid)!.totalPoints);
+    return c.eligible && total > 0 ? total ** curve.exponent : 0;
+  };
+  const scale = competitors.reduce((sum, c) => sum + strength(c), 0);
+
+  const miners = competitors.map(c => {
+    const { layerPoints, totalPoints } = points.get(c.uid)!;
+    return {
+      uid: c.uid,
+      layerPoints: Object.fromEntries(layers.map(layer => [layer, round(layerPoints[layer])])),
+      totalPoints: round(totalPoints),
+      eligible: c.eligible,
+      weight: scale > 0 ? (strength(c) / scale) * curve.distributed : 0,
+    };
+  });
+  miners.sort((a, b) => b.weight - a.weight || b.totalPoints - a.totalPoints);
+
+  return { miners, envWinners, curve };
+};
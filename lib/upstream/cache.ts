@@ -0,0 +1,81 @@
+import { createHash } from 'crypto';
+
+export type CacheStatus = 'HIT' | 'STALE' | 'MISS';
+
+export interface CacheEntry<T> {
+  value: T;
+  // Serialized value, so handlers don't re-stringify on every request
+  body: string;
+  etag: string;
+  fetchedAt: number;
+  upstreamEtag: string | null;
+}
+
+export interface CachedResult<T> {
+  entry: CacheEntry<T>;
+  status: CacheStatus;
+}
+
+interface CachedFetcherOptions<T> {
+  url: string;
+  // ms an entry is served without contacting upstream
+  ttl: number;
+  // further ms an expired entry is still served while a refresh runs in the background
+  staleWhileRevalidate: number;
+  // Validates/normalizes the upstream JSON; throwing rejects the response
+  parse: (json: unknown) => T;
+}
+
+export const etagFor = (body: string) =>
+  `"${createHash('sha1').update(body).digest('hex').slice(0, 20)}"`;
+
+// In-memory TTL cache in front of one upstream JSON endpoint. Concurrent
+// misses share a single upstream request.
+export const createCachedFetcher = <T>({ url, ttl, staleWhileRevalidate, parse }: CachedFetcherOptions<T>) => {
+  let entry: CacheEntry<T> | null = null;
+  let inflight: Promise<CacheEntry<T>> | null = null;
+
+  const refresh = () => {
+    if (!inflight) {
+      inflight = (async () => {
+        const headers: HeadersInit = entry?.upstreamEtag ? { 'If-None-Match': entry.upstreamEtag } : {};
+        const response = await fetch(url, { cache: 'no-store', headers });
+
+        if (response.status === 304 && entry) {
+          entry = { ...entry, fetchedAt: Date.now() };
+          return entry;
+        }
+        if (!response.ok) {
+          throw new Error(`Upstream ${url} responded with ${response.status}`);
+        }
+
+        const value = parse(await response.json());
+        const body = JSON.stringify(value);
+        entry = {
+          value,
+          body,
+          etag: etagFor(body),
+          fetchedAt: Date.now(),
+          upstreamEtag: response.headers.get('etag'),
+        };
+        return entry;
+      })().finally(() => {
+        inflight = null;
+      });
+    }
+    return inflight;
+  };
+
+  return async (): Promise<CachedResult<T>> => {
+    const age = entry ? Date.now() - entry.fetchedAt : Infinity;
+
+    if (entry && age < ttl) {
+      return { entry, status: 'HIT' };
+    }
+    if (entry && age < ttl + staleWhileRevalidate) {
+      refresh().catch(error => console.error('Error revalidating upstream:', error));
+      return { entry, status: 'STALE' };
+    }
+    return { entry: await refresh(), status: 'MISS' };
+  };
+};
@@ -0,0 +1,26 @@
+const DEFAULT_PRICE_URL = 'https://api.coingecko.com/api/v3/simple/price?ids=bittensor&vs_currencies=usd';
+
+const envNumber = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && !isNaN(value) ? value : fallback;
+};
+
+// Read on first use rather than at import so tests can point at a mock upstream
+export const upstreamConfig = () => ({
+  // The weights URL comes from the selected deployment (lib/config)
+  weights: {
+    ttl: envNumber('WEIGHTS_CACHE_TTL', 10000),
+    staleWhileRevalidate: envNumber('WEIGHTS_STALE_TTL', 60000),
+  },
+  price: {
+    url: process.env.TAO_PRICE_URL || DEFAULT_PRICE_URL,
+    ttl: envNumber('PRICE_CACHE_TTL', 300000),
+    staleWhileRevalidate: envNumber('PRICE_STALE_TTL', 3600000),
+  },
+  stream: {
+    // How often the shared poller behind /api/stream checks for a new block
+    pollInterval: envNumber('STREAM_POLL_INTERVAL', 10000),
+    // Keep-alive events let clients tell a quiet stream from a dead one
+    heartbeatInterval: envNumber('STREAM_HEARTBEAT_INTERVAL', 15000),
+  },
+});
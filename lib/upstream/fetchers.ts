@@ -0,0 +1,44 @@
+import { dashboardConfig, findDeployment, type Deployment } from '@/lib/config';
+import { validateWeightsData, type WeightsData } from '@/lib/weights';
+import { createCachedFetcher } from './cache';
+import { upstreamConfig } from './config';
+
+export interface TaoPrice {
+  usd: number;
+}
+
+const parseTaoPrice = (json: unknown): TaoPrice => {
+  const usd = (json as { bittensor?: { usd?: unknown } })?.bittensor?.usd;
+  if (typeof usd !== 'number') {
+    throw new Error('Price payload has no bittensor.usd');
+  }
+  return { usd };
+};
+
+// One cache per deployment, keyed by id
+const weightsFetchers = new Map<string, ReturnType<typeof createCachedFetcher<WeightsData>>>();
+let priceFetcher: ReturnType<typeof createCachedFetcher<TaoPrice>> | null = null;
+
+export const defaultDeployment = () => {
+  const config = dashboardConfig();
+  return findDeployment(config, config.defaultDeployment)!;
+};
+
+// Shared by the API routes, the stream and the history collector so each upstream is polled once
+export const getWeights = (deployment: Deployment = defaultDeployment()) => {
+  let fetcher = weightsFetchers.get(deployment.id);
+  if (!fetcher) {
+    fetcher = createCachedFetcher({
+      ...upstreamConfig().weights,
+      url: deployment.weightsUrl,
+      parse: validateWeightsData,
+    });
+    weightsFetchers.set(deployment.id, fetcher);
+  }
+  return fetcher();
+};
+
+export const getTaoPrice = () => {
+  priceFetcher ??= createCachedFetcher({ ...upstreamConfig().price, parse: parseTaoPrice });
+  return priceFetcher();
+};
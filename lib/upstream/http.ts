@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { dashboardConfig, findDeployment } from '@/lib/config';
+import type { CachedResult } from './cache';
+
+// Turns a cache lookup into a JSON response, answering If-None-Match with 304
+export const cachedJsonResponse = <T>(
+  request: Request,
+  { entry, status }: CachedResult<T>,
+  ttl: number
+) => {
+  const headers = {
+    'ETag': entry.etag,
+    'Cache-Control': `public, max-age=0, s-maxage=${Math.floor(ttl / 1000)}, stale-while-revalidate`,
+    'X-Cache': status,
+  };
+
+  const ifNoneMatch = request.headers.get('if-none-match');
+  if (ifNoneMatch && ifNoneMatch.split(',').map(tag => tag.trim()).includes(entry.etag)) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  return new Response(entry.body, {
+    status: 200,
+    headers: { ...headers, 'Content-Type': 'application/json' },
+  });
+};
+
+// Resolves ?deployment= to a configured deployment, or a 400 response for an unknown id
+export const requestDeployment = (request: Request) => {
+  const id = new URL(request.url).searchParams.get('deployment');
+  const deployment = findDeployment(dashboardConfig(), id);
+  if (!deployment) {
+    return { error: NextResponse.json({ error: `Unknown deployment "${id}"` }, { status: 400 }) };
+  }
+  return { deployment };
+};
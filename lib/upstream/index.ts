@@ -0,0 +1,8 @@
+export type { CacheStatus, CacheEntry, CachedResult } from './cache';
+export { createCachedFetcher, etagFor } from './cache';
+export { upstreamConfig } from './config';
+export type { TaoPrice } from './fetchers';
+export { defaultDeployment, getTaoPrice, getWeights } from './fetchers';
+export { cachedJsonResponse, requestDeployment } from './http';
+export type { StreamEvent } from './stream';
+export { subscribeWeights } from './stream';
@@ -0,0 +1,64 @@
+import type { Deployment } from '@/lib/config';
+import { upstreamConfig } from './config';
+import { defaultDeployment, getWeights } from './fetchers';
+
+export type StreamEvent =
+  | { type: 'weights'; block: number; body: string }
+  | { type: 'upstream-error'; message: string };
+
+type Listener = (event: StreamEvent) => void;
+
+interface Poller {
+  listeners: Set<Listener>;
+  timer: ReturnType<typeof setInterval> | null;
+  latest: { block: number; body: string } | null;
+  failing: boolean;
+}
+
+// One poller per deployment, shared by every stream open on it
+const pollers = new Map<string, Poller>();
+
+const emit = (poller: Poller, event: StreamEvent) => poller.listeners.forEach(listener => listener(event));
+
+// Subscribers only hear about a new block, or about upstream failing and recovering
+const poll = async (poller: Poller, deployment: Deployment) => {
+  try {
+    const { entry } = await getWeights(deployment);
+    if (!poller.latest || poller.latest.block !== entry.value.block || poller.failing) {
+      poller.latest = { block: entry.value.block, body: entry.body };
+      poller.failing = false;
+      emit(poller, { type: 'weights', ...poller.latest });
+    }
+  } catch (error) {
+    console.error('Error polling weights for stream:', error);
+    poller.failing = true;
+    emit(poller, { type: 'upstream-error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
+
+// Polling runs only while someone is subscribed. New subscribers get the last
+// known payload straight away.
+export const subscribeWeights = (listener: Listener, deployment: Deployment = defaultDeployment()) => {
+  let poller = pollers.get(deployment.id);
+  if (!poller) {
+    poller = { listeners: new Set(), timer: null, latest: null, failing: false };
+    pollers.set(deployment.id, poller);
+  }
+  const current = poller;
+
+  current.listeners.add(listener);
+  if (current.latest && !current.failing) listener({ type: 'weights', ...current.latest });
+
+  if (!current.timer) {
+    current.timer = setInterval(() => poll(current, deployment), upstreamConfig().stream.pollInterval);
+    poll(current, deployment);
+  }
+
+  return () => {
+    current.listeners.delete(listener);
+    if (current.listeners.size === 0 && current.timer) {
+      clearInterval(current.timer);
+      current.timer = null;
+    }
+  };
+};
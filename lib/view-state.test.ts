@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_VIEW, parseViewState, serializeViewState } from './view-state';
+
+const parse = (query: string) => parseViewState(new URLSearchParams(query));
+
+describe('parseViewState', () => {
+  it('falls back to defaults for an empty query', () => {
+    expect(parse('')).toEqual(DEFAULT_VIEW);
+  });
+
+  it('reads sort, page and page size', () => {
+    expect(parse('sort=env:affine:SAT&dir=asc&page=3&size=100')).toMatchObject({
+      sort: 'env:affine:SAT',
+      dir: 'asc',
+      page: 3,
+      size: 100,
+    });
+    expect(parse('size=all').size).toBe(0);
+    expect(parse('score=lower').score).toBe('lower');
+    expect(parse('deployment=staging').deployment).toBe('staging');
+  });
+
+  it('reads search, tab, columns and focus', () => {
+    expect(parse('q=qwen&tab=eligible&cols=affine:SAT,affine:DED&focus=affine:SAT')).toMatchObject({
+      search: 'qwen',
+      tab: 'eligible',
+      columns: ['affine:SAT', 'affine:DED'],
+      focus: 'affine:SAT',
+    });
+  });
+
+  it('ignores values it does not understand', () => {
+    expect(parse('dir=sideways&page=-2&size=7&tab=offline&cols=&score=max')).toEqual(DEFAULT_VIEW);
+  });
+});
+
+describe('serializeViewState', () => {
+  it('omits defaults', () => {
+    expect(serializeViewState(DEFAULT_VIEW)).toBe('');
+  });
+
+  it('round-trips through parseViewState', () => {
+    const view = {
+      ...DEFAULT_VIEW,
+      search: 'org/model name',
+      columns: ['affine:SAT'],
+      sort: 'totalPoints',
+      dir: 'asc' as const,
+      page: 2,
+      size: 0,
+      score: 'lower' as const,
+      deployment: 'staging',
+    };
+    expect(serializeViewState(view))
+      .toBe('q=org%2Fmodel+name&cols=affine%3ASAT&sort=totalPoints&dir=asc&page=2&size=all&score=lower&deployment=staging');
+    expect(parse(serializeViewState(view))).toEqual(view);
+  });
+});
@@ -0,0 +1,77 @@
+// Leaderboard view settings that are mirrored into the URL query string so a
+// view can be linked. Only values that differ from the defaults are written.
+
+export type SortDirection = 'asc' | 'desc';
+
+export type LeaderboardTab = 'all' | 'eligible';
+
+// 'lower' ranks environment scores by the lower bound of their confidence interval
+export type ScoreMode = 'mean' | 'lower';
+
+export interface ViewState {
+  search: string;
+  tab: LeaderboardTab;
+  // Environments with a visible score column, in display order
+  columns: string[];
+  focus: string | null;
+  sort: string;
+  dir: SortDirection;
+  page: number;
+  // Rows per page; 0 shows every row
+  size: number;
+  score: ScoreMode;
+  // Deployment id from lib/config; null is the configured default
+  deployment: string | null;
+}
+
+export const PAGE_SIZES = [25, 50, 100, 0];
+
+export const DEFAULT_VIEW: ViewState = {
+  search: '',
+  tab: 'all',
+  columns: [],
+  focus: null,
+  sort: 'weight',
+  dir: 'desc',
+  page: 1,
+  size: 50,
+  score: 'mean',
+  deployment: null,
+};
+
+const positiveInt = (value: string | null) => {
+  const n = value === null ? NaN : parseInt(value);
+  return isNaN(n) || n < 1 ? null : n;
+};
+
+export const parseViewState = (params: URLSearchParams): ViewState => {
+  const size = params.get('size');
+  const columns = params.get('cols');
+  return {
+    search: params.get('q') || DEFAULT_VIEW.search,
+    tab: params.get('tab') === 'eligible' ? 'eligible' : DEFAULT_VIEW.tab,
+    columns: columns ? columns.split(',').filter(Boolean) : DEFAULT_VIEW.columns,
+    focus: params.get('focus') || DEFAULT_VIEW.focus,
+    sort: params.get('sort') || DEFAULT_VIEW.sort,
+    dir: params.get('dir') === 'asc' ? 'asc' : DEFAULT_VIEW.dir,
+    page: positiveInt(params.get('page')) ?? DEFAULT_VIEW.page,
+    size: size === 'all' ? 0 : PAGE_SIZES.find(s => s === positiveInt(size)) ?? DEFAULT_VIEW.size,
+    score: params.get('score') === 'lower' ? 'lower' : DEFAULT_VIEW.score,
+    deployment: params.get('deployment') || DEFAULT_VIEW.deployment,
+  };
+};
+
+export const serializeViewState = (view: ViewState) => {
+  const params = new URLSearchParams();
+  if (view.search) params.set('q', view.search);
+  if (view.tab !== DEFAULT_VIEW.tab) params.set('tab', view.tab);
+  if (view.columns.length > 0) params.set('cols', view.columns.join(','));
+  if (view.focus) params.set('focus', view.focus);
+  if (view.sort !== DEFAULT_VIEW.sort) params.set('sort', view.sort);
+  if (view.dir !== DEFAULT_VIEW.dir) params.set('dir', view.dir);
+  if (view.page !== DEFAULT_VIEW.page) params.set('page', String(view.page));
+  if (view.size !== DEFAULT_VIEW.size) params.set('size', view.size === 0 ? 'all' : String(view.size));
+  if (view.score !== DEFAULT_VIEW.score) params.set('score', view.score);
+  if (view.deployment) params.set('deployment', view.deployment);
+  return params.toString();
+};
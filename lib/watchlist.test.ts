@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { loadFixture } from '@/test/fixtures';
+import { parseModels, validateWeightsData } from '@/lib/weights';
+import { EMPTY_WATCHLIST, parseWatchlist, pinWatched, summarizeWatchlist, toggleWatch } from './watchlist';
+
+const data = validateWeightsData(loadFixture('weights/basic.json'));
+const models = parseModels(data);
+const hotkey = (uid: number) => models.find(m => m.uid === uid)!.hotkey;
+
+describe('parseWatchlist', () => {
+  it('reads exported lists and plain arrays', () => {
+    expect(parseWatchlist({ hotkeys: ['5abc', '5abc'], uids: [12, -1] })).toEqual({ hotkeys: ['5abc'], uids: [12] });
+    expect(parseWatchlist(['5abc', '47', 88, null])).toEqual({ hotkeys: ['5abc'], uids: [47, 88] });
+    expect(parseWatchlist('nope')).toEqual(EMPTY_WATCHLIST);
+  });
+});
+
+describe('toggleWatch', () => {
+  it('watches the hotkey and unwatches by hotkey or UID', () => {
+    const added = toggleWatch(EMPTY_WATCHLIST, models[0]);
+    expect(added).toEqual({ hotkeys: [models[0].hotkey], uids: [] });
+    expect(toggleWatch(added, models[0])).toEqual(EMPTY_WATCHLIST);
+    expect(toggleWatch({ hotkeys: [], uids: [12, 47] }, models[0])).toEqual({ hotkeys: [], uids: [47] });
+  });
+});
+
+describe('pinWatched', () => {
+  it('moves watched rows first without reordering the rest', () => {
+    const list = { hotkeys: [hotkey(203)], uids: [47] };
+    expect(pinWatched(models, list).map(m => m.uid)).toEqual([47, 203, 12, 88]);
+  });
+});
+
+describe('summarizeWatchlist', () => {
+  it('totals weight and splits environments into leads and trails', () => {
+    const list = { hotkeys: [hotkey(47)], uids: [203] };
+    const summary = summarizeWatchlist(models, list, data.data.environments, data.data.env_winners);
+    expect(summary.watched.map(m => m.uid)).toEqual([47, 203]);
+    expect(summary.weightShare).toBeCloseTo(0.2318 / 0.8);
+    expect(summary.eligibleCount).toBe(1);
+    expect(summary.leads).toEqual(['affine:ABD']);
+    expect(summary.trails).toEqual([
+      { env: 'affine:SAT', watchedScore: 83.9, winnerScore: 84.2 },
+      { env: 'affine:DED', watchedScore: 65.1, winnerScore: 70.25 },
+    ]);
+  });
+
+  it('is empty when nothing is watched', () => {
+    const summary = summarizeWatchlist(models, EMPTY_WATCHLIST, data.data.environments, data.data.env_winners);
+    expect(summary).toMatchObject({ watched: [], weightShare: 0, leads: [], trails: [] });
+  });
+});
@@ -0,0 +1,112 @@
+// Miners a team wants to keep an eye on, matched by hotkey or UID. Hotkeys
+// follow a miner across UID re-registration; UIDs follow a slot.
+import { parseEnvScore, type ModelRow } from '@/lib/weights';
+
+export interface Watchlist {
+  hotkeys: string[];
+  uids: number[];
+}
+
+export interface EnvStanding {
+  env: string;
+  // Best watched score in the environment and the env winner's score
+  watchedScore: number | null;
+  winnerScore: number | null;
+}
+
+export interface WatchlistSummary {
+  watched: ModelRow[];
+  // Share of the total weight held by watched miners, 0-1
+  weightShare: number;
+  eligibleCount: number;
+  // Environments whose winner is a watched miner
+  leads: string[];
+  trails: EnvStanding[];
+}
+
+export const EMPTY_WATCHLIST: Watchlist = { hotkeys: [], uids: [] };
+
+export const isWatched = (model: ModelRow, list: Watchlist) =>
+  list.hotkeys.includes(model.hotkey) || list.uids.includes(model.uid);
+
+export const watchlistSize = (list: Watchlist) => list.hotkeys.length + list.uids.length;
+
+// Accepts an exported watchlist, or a plain array of hotkeys and UIDs
+export const parseWatchlist = (input: unknown): Watchlist => {
+  let items: unknown[] = [];
+  if (Array.isArray(input)) {
+    items = input;
+  } else if (input && typeof input === 'object') {
+    const { hotkeys, uids } = input as { hotkeys?: unknown; uids?: unknown };
+    items = [...(Array.isArray(hotkeys) ? hotkeys : []), ...(Array.isArray(uids) ? uids : [])];
+  }
+
+  const list: Watchlist = { hotkeys: [], uids: [] };
+  items.forEach(item => {
+    if (typeof item === 'number' && Number.isInteger(item) && item >= 0) {
+      if (!list.uids.includes(item)) list.uids.push(item);
+    } else if (typeof item === 'string' && item.trim()) {
+      const value = item.trim();
+      if (/^\d+$/.test(value)) {
+        if (!list.uids.includes(Number(value))) list.uids.push(Number(value));
+      } else if (!list.hotkeys.includes(value)) {
+        list.hotkeys.push(value);
+      }
+    }
+  });
+  return list;
+};
+
+// Starring a row watches its hotkey; unstarring drops both its hotkey and UID
+export const toggleWatch = (list: Watchlist, model: ModelRow): Watchlist =>
+  isWatched(model, list)
+    ? {
+        hotkeys: list.hotkeys.filter(h => h !== model.hotkey),
+        uids: list.uids.filter(u => u !== model.uid),
+      }
+    : { ...list, hotkeys: [...list.hotkeys, model.hotkey] };
+
+// Moves watched rows to the front, keeping the existing order within each group
+export const pinWatched = (models: ModelRow[], list: Watchlist) => [
+  ...models.filter(m => isWatched(m, list)),
+  ...models.filter(m => !isWatched(m, list)),
+];
+
+export const summarizeWatchlist = (
+  models: ModelRow[],
+  list: Watchlist,
+  environments: string[],
+  envWinners: Record<string, string>
+): WatchlistSummary => {
+  const watched = models.filter(m => isWatched(m, list));
+  const totalWeight = models.reduce((sum, m) => sum + m.weight, 0);
+  const watchedWeight = watched.reduce((sum, m) => sum + m.weight, 0);
+
+  const leads: string[] = [];
+  const trails: EnvStanding[] = [];
+  if (watched.length > 0) {
+    environments.forEach(env => {
+      if (watched.some(m => m.hotkey === envWinners[env])) {
+        leads.push(env);
+        return;
+      }
+      const scores = watched
+        .map(m => parseEnvScore(m.environments[env]))
+        .filter((s): s is number => s !== null);
+      const winner = models.find(m => m.hotkey === envWinners[env]);
+      trails.push({
+        env,
+        watchedScore: scores.length > 0 ? Math.max(...scores) : null,
+        winnerScore: winner ? parseEnvScore(winner.environments[env]) : null,
+      });
+    });
+  }
+
+  return {
+    watched,
+    weightShare: totalWeight > 0 ? watchedWeight / totalWeight : 0,
+    eligibleCount: watched.filter(m => m.eligible).length,
+    leads,
+    trails,
+  };
+};
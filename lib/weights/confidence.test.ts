@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { loadFixture } from '@/test/fixtures';
+import { avgLowerBound, envLowerBound, intervalsOverlap, tiedWithLeader, wilsonInterval } from './confidence';
+import { parseModels } from './parse';
+import { validateWeightsData } from './validate';
+
+const models = parseModels(validateWeightsData(loadFixture('weights/basic.json')));
+
+describe('wilsonInterval', () => {
+  it('matches the textbook interval', () => {
+    // 8/10 successes: 95% Wilson interval is roughly [49.0, 94.3]
+    const interval = wilsonInterval(80, 10)!;
+    expect(interval.lower).toBeCloseTo(49.02, 1);
+    expect(interval.upper).toBeCloseTo(94.33, 1);
+  });
+
+  it('stays inside 0-100 and narrows with more samples', () => {
+    const small = wilsonInterval(100, 5)!;
+    const large = wilsonInterval(90, 5000)!;
+    expect(small.upper).toBe(100);
+    expect(large.lower).toBeGreaterThan(small.lower);
+    expect(wilsonInterval(50, 0)).toBeNull();
+  });
+});
+
+describe('envLowerBound and avgLowerBound', () => {
+  it('scores cells without samples as 0 and skips empty cells', () => {
+    expect(envLowerBound('90.00/1/0')).toBe(0);
+    expect(envLowerBound('')).toBeNull();
+    const newcomer = models.find(m => m.uid === 203)!;
+    expect(avgLowerBound(newcomer)).toBeCloseTo(wilsonInterval(12.5, 24)!.lower);
+  });
+});
+
+describe('tiedWithLeader', () => {
+  it('includes miners whose interval overlaps the leader', () => {
+    // SAT: 84.20 over 1480 vs 83.90 over 1320 overlap; 79.15 over 1010 does not
+    expect(Array.from(tiedWithLeader(models, 'affine:SAT')).sort()).toEqual([12, 47]);
+    expect(intervalsOverlap({ lower: 0, upper: 1 }, { lower: 2, upper: 3 })).toBe(false);
+  });
+});
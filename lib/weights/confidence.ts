@@ -0,0 +1,63 @@
+import { parseEnvCell, parseEnvScore } from './parse';
+import type { ModelRow } from './types';
+
+// z for a two-sided 95% interval
+export const CONFIDENCE_Z = 1.96;
+
+// Bounds are percentages, like the accuracy they come from
+export interface ScoreInterval {
+  lower: number;
+  upper: number;
+}
+
+// Wilson score interval for an accuracy (0-100) measured over `samples`
+// trials. Unlike accuracy ± z·SE it stays inside 0-100 and widens sharply for
+// small samples, so a 5-sample 100% does not outrank a 5,000-sample 90%.
+export const wilsonInterval = (accuracy: number, samples: number, z = CONFIDENCE_Z): ScoreInterval | null => {
+  if (samples <= 0) return null;
+  const p = Math.min(Math.max(accuracy / 100, 0), 1);
+  const z2 = z * z;
+  const denominator = 1 + z2 / samples;
+  const center = (p + z2 / (2 * samples)) / denominator;
+  const margin = (z * Math.sqrt((p * (1 - p)) / samples + z2 / (4 * samples * samples))) / denominator;
+  return {
+    lower: Math.max(0, center - margin) * 100,
+    upper: Math.min(1, center + margin) * 100,
+  };
+};
+
+export const envInterval = (cell: string): ScoreInterval | null => {
+  const { accuracy, samples } = parseEnvCell(cell);
+  return accuracy === null ? null : wilsonInterval(accuracy, samples);
+};
+
+// Lower bound of the interval; cells without a sample count score as 0
+export const envLowerBound = (cell: string): number | null => {
+  const accuracy = parseEnvScore(cell);
+  if (accuracy === null) return null;
+  return envInterval(cell)?.lower ?? 0;
+};
+
+// Counterpart of avgEnvScore using each environment's lower bound
+export const avgLowerBound = (model: ModelRow): number | null => {
+  const bounds = Object.values(model.environments)
+    .map(envLowerBound)
+    .filter((b): b is number => b !== null);
+  return bounds.length > 0 ? bounds.reduce((sum, b) => sum + b, 0) / bounds.length : null;
+};
+
+export const intervalsOverlap = (a: ScoreInterval, b: ScoreInterval) =>
+  a.lower <= b.upper && b.lower <= a.upper;
+
+// UIDs whose interval in `env` overlaps the interval of the highest-accuracy
+// miner (the leader itself included): the data cannot separate them from it.
+export const tiedWithLeader = (models: ModelRow[], env: string): Set<number> => {
+  const scored = models
+    .map(m => ({ uid: m.uid, accuracy: parseEnvScore(m.environments[env]), interval: envInterval(m.environments[env]) }))
+    .filter((s): s is { uid: number; accuracy: number; interval: ScoreInterval } =>
+      s.accuracy !== null && s.interval !== null);
+  if (scored.length === 0) return new Set();
+
+  const leader = scored.reduce((best, s) => s.accuracy > best.accuracy ? s : best);
+  return new Set(scored.filter(s => intervalsOverlap(s.interval, leader.interval)).map(s => s.uid));
+};
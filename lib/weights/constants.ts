@@ -0,0 +1,4 @@
+export const WEIGHTS_API_URL = 'https://dashboard.affine.io/api/weights';
+
+// Bittensor produces a block roughly every 12 seconds
+export const BLOCK_TIME_SECONDS = 12;
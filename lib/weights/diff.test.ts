@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { loadFixture } from '@/test/fixtures';
+import { diffSnapshots, rankByWeight } from './diff';
+import { parseModels } from './parse';
+import type { ModelRow } from './types';
+import { validateWeightsData } from './validate';
+
+const basic = () => parseModels(validateWeightsData(loadFixture('weights/basic.json')));
+
+const withRow = (models: ModelRow[], uid: number, patch: Partial<ModelRow>) =>
+  models.map(m => m.uid === uid ? { ...m, ...patch } : m);
+
+describe('rankByWeight', () => {
+  it('ranks heaviest first and breaks ties by UID', () => {
+    const models = withRow(basic(), 203, { weight: 0.1557 });
+    expect(Array.from(rankByWeight(models))).toEqual([[12, 1], [47, 2], [88, 3], [203, 4]]);
+  });
+});
+
+describe('diffSnapshots', () => {
+  it('reports no movement between identical snapshots', () => {
+    const { changes, dropped } = diffSnapshots(basic(), basic());
+    expect(changes.get(12)).toEqual({ rankDelta: 0, weightDelta: 0, isNew: false, hotkeySwapped: false });
+    expect(dropped).toEqual([]);
+  });
+
+  it('tracks rank and weight movement', () => {
+    const current = withRow(basic(), 88, { weight: 0.5 });
+    const { changes } = diffSnapshots(basic(), current);
+    expect(changes.get(88)!.rankDelta).toBe(2);
+    expect(changes.get(88)!.weightDelta).toBeCloseTo(0.5 - 0.1557);
+    expect(changes.get(12)!.rankDelta).toBe(-1);
+  });
+
+  it('flags new UIDs and hotkey swaps as new', () => {
+    const previous = basic().filter(m => m.uid !== 203);
+    const current = withRow(basic(), 47, { hotkey: '5NewHotkey' });
+    const { changes, dropped } = diffSnapshots(previous, current);
+
+    expect(changes.get(203)).toMatchObject({ isNew: true, hotkeySwapped: false, rankDelta: null });
+    expect(changes.get(47)).toMatchObject({ isNew: true, hotkeySwapped: true, weightDelta: 0.2318 });
+    expect(dropped).toEqual([
+      { uid: 47, hotkey: '5HGjWAeFDfFCWPsjFQdVV2Msvz2XtMktvgocEZcCj68kUMaw', model: 'affine-labs/qwen3-8b-reason-fork', reason: 'replaced' },
+    ]);
+  });
+
+  it('lists deregistrations and lost eligibility', () => {
+    const current = withRow(basic().filter(m => m.uid !== 203), 88, { eligible: false });
+    const { dropped } = diffSnapshots(basic(), current);
+    expect(dropped.map(d => [d.uid, d.reason])).toEqual([[88, 'lost-eligibility'], [203, 'deregistered']]);
+  });
+});
@@ -0,0 +1,67 @@
+import type { ModelRow } from './types';
+
+export interface RowChange {
+  // Positions gained in the weight ranking (negative when falling); null for new rows
+  rankDelta: number | null;
+  weightDelta: number;
+  isNew: boolean;
+  // The UID existed before but is now held by a different hotkey
+  hotkeySwapped: boolean;
+}
+
+export interface DroppedMiner {
+  uid: number;
+  hotkey: string;
+  model: string;
+  reason: 'deregistered' | 'replaced' | 'lost-eligibility';
+}
+
+export interface SnapshotDiff {
+  changes: Map<number, RowChange>;
+  dropped: DroppedMiner[];
+}
+
+// 1-based position by weight, heaviest first; ties keep UID order
+export const rankByWeight = (models: ModelRow[]) => {
+  const ranks = new Map<number, number>();
+  [...models]
+    .sort((a, b) => b.weight - a.weight || a.uid - b.uid)
+    .forEach((m, i) => ranks.set(m.uid, i + 1));
+  return ranks;
+};
+
+// Compares two snapshots. A row is the same miner only when both its UID and
+// hotkey match; a new hotkey on an existing UID counts as a new registration.
+export const diffSnapshots = (previous: ModelRow[], current: ModelRow[]): SnapshotDiff => {
+  const previousByUid = new Map(previous.map(m => [m.uid, m]));
+  const currentByUid = new Map(current.map(m => [m.uid, m]));
+  const previousRanks = rankByWeight(previous);
+  const currentRanks = rankByWeight(current);
+
+  const changes = new Map<number, RowChange>();
+  current.forEach(m => {
+    const before = previousByUid.get(m.uid);
+    const sameMiner = before !== undefined && before.hotkey === m.hotkey;
+    changes.set(m.uid, {
+      rankDelta: sameMiner ? previousRanks.get(m.uid)! - currentRanks.get(m.uid)! : null,
+      weightDelta: sameMiner ? m.weight - before.weight : m.weight,
+      isNew: !sameMiner,
+      hotkeySwapped: before !== undefined && !sameMiner,
+    });
+  });
+
+  const dropped: DroppedMiner[] = [];
+  previous.forEach(m => {
+    const after = currentByUid.get(m.uid);
+    const entry = { uid: m.uid, hotkey: m.hotkey, model: m.model };
+    if (!after) {
+      dropped.push({ ...entry, reason: 'deregistered' });
+    } else if (after.hotkey !== m.hotkey) {
+      dropped.push({ ...entry, reason: 'replaced' });
+    } else if (m.eligible && !after.eligible) {
+      dropped.push({ ...entry, reason: 'lost-eligibility' });
+    }
+  });
+
+  return { changes, dropped };
+};
@@ -0,0 +1,23 @@
+export type { WeightsCell, WeightsStats, WeightsData, ModelRow, EnvScore } from './types';
+export { WEIGHTS_API_URL, BLOCK_TIME_SECONDS } from './constants';
+export {
+  SUPPORTED_SCHEMA_MAJOR,
+  REQUIRED_COLUMNS,
+  WeightsValidationError,
+  schemaMajor,
+  getLayerColumns,
+  validateWeightsData,
+} from './validate';
+export { parseEnvScore, parseTotalSamples, parseEnvCell, parseModels, envLabel, ageInDays } from './parse';
+export type { RowChange, DroppedMiner, SnapshotDiff } from './diff';
+export { rankByWeight, diffSnapshots } from './diff';
+export type { ScoreInterval } from './confidence';
+export {
+  CONFIDENCE_Z,
+  wilsonInterval,
+  envInterval,
+  envLowerBound,
+  avgLowerBound,
+  intervalsOverlap,
+  tiedWithLeader,
+} from './confidence';
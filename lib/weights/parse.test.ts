@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { loadFixture } from '@/test/fixtures';
+import { ageInDays, envLabel, parseEnvCell, parseEnvScore, parseModels, parseTotalSamples } from './parse';
+import { validateWeightsData } from './validate';
+
+const fixture = (name: string) => validateWeightsData(loadFixture(`weights/${name}`));
+
+describe('parseEnvScore', () => {
+  it('reads the accuracy and ignores the * marker', () => {
+    expect(parseEnvScore('84.20*/1.31/1480')).toBe(84.2);
+    expect(parseEnvScore('71.05/1.92/1210')).toBe(71.05);
+  });
+
+  it('returns null for empty or malformed cells', () => {
+    expect(parseEnvScore('')).toBeNull();
+    expect(parseEnvScore('n/a')).toBeNull();
+  });
+});
+
+describe('parseTotalSamples', () => {
+  it('reads the third component', () => {
+    expect(parseTotalSamples('84.20*/1.31/1480')).toBe(1480);
+  });
+
+  it('falls back to zero when the sample count is absent', () => {
+    expect(parseTotalSamples('')).toBe(0);
+    expect(parseTotalSamples('84.20/1.31')).toBe(0);
+    expect(parseTotalSamples('84.20/1.31/x')).toBe(0);
+  });
+});
+
+describe('parseEnvCell', () => {
+  it('keeps the * marker as a flag', () => {
+    expect(parseEnvCell('84.20*/1.31/1480')).toEqual({ accuracy: 84.2, marked: true, samples: 1480 });
+    expect(parseEnvCell('')).toEqual({ accuracy: null, marked: false, samples: 0 });
+  });
+});
+
+describe('parseModels', () => {
+  it('maps every row of a recorded payload', () => {
+    const models = parseModels(fixture('basic.json'));
+    expect(models).toHaveLength(4);
+    expect(models[0]).toEqual({
+      uid: 12,
+      hotkey: '5F4tQyWrhfGVcNhoqeiNsR6KjD4wMZ2kfhLj4oHYuyHbZAc3',
+      model: 'affine-labs/qwen3-8b-reason',
+      revision: '7c1e9a0b52d34f6e8a9b0c1d2e3f4a5b6c7d8e9f',
+      environments: {
+        'affine:SAT': '84.20*/1.31/1480',
+        'affine:ABD': '71.05/1.92/1210',
+        'affine:DED': '66.40/2.10/990',
+      },
+      layerPoints: { L3: 0, L4: 2, L5: 3, L6: 4, L7: 0, L8: 0 },
+      totalPoints: 9,
+      eligible: true,
+      firstBlock: 6650100,
+      weight: 0.4125,
+      avgEnvScore: (84.2 + 71.05 + 66.4) / 3,
+      totalSamples: 3680,
+    });
+  });
+
+  it('averages only the environments a miner has scores for', () => {
+    const newcomer = parseModels(fixture('basic.json')).find(m => m.uid === 203)!;
+    expect(newcomer.avgEnvScore).toBe(12.5);
+    expect(newcomer.totalSamples).toBe(24);
+    expect(newcomer.eligible).toBe(false);
+  });
+
+  it('discovers layer columns from the header', () => {
+    const [first] = parseModels(fixture('extra-layer.json'));
+    expect(Object.keys(first.layerPoints)).toEqual(['L3', 'L4', 'L5', 'L6', 'L7', 'L8', 'L9']);
+    expect(first.layerPoints.L9).toBe(5);
+  });
+
+  it('tolerates empty, null and malformed env cells', () => {
+    const rows = new Map(parseModels(fixture('malformed-cells.json')).map(m => [m.uid, m]));
+    expect(rows.get(5)).toMatchObject({ avgEnvScore: 79.25, totalSamples: 300 });
+    expect(rows.get(9)).toMatchObject({ avgEnvScore: null, totalSamples: 0 });
+    expect(rows.get(14)).toMatchObject({ avgEnvScore: null, totalSamples: 11 });
+    expect(rows.get(21)).toMatchObject({
+      avgEnvScore: 64.1,
+      totalSamples: 800,
+      environments: { 'affine:SAT': '', 'affine:ABD': '64.10/2.00/800', 'affine:DED': '' },
+      layerPoints: { L3: 0, L4: 0, L5: 2, L6: 0, L7: 0, L8: 0 },
+    });
+  });
+
+  it('returns no rows for a payload with zero miners', () => {
+    expect(parseModels(fixture('empty.json'))).toEqual([]);
+  });
+
+  it('coerces numeric cells sent as strings', () => {
+    const data = fixture('basic.json');
+    const wgt = data.data.header.indexOf('Wgt');
+    data.data.rows[0][wgt] = '0.5';
+    expect(parseModels(data)[0].weight).toBe(0.5);
+  });
+});
+
+describe('envLabel', () => {
+  it('strips the namespace prefix', () => {
+    expect(envLabel('affine:SAT')).toBe('SAT');
+    expect(envLabel('SAT')).toBe('SAT');
+  });
+});
+
+describe('ageInDays', () => {
+  it('converts a block distance to days at 12s per block', () => {
+    expect(ageInDays(0, 7200)).toBe(1);
+  });
+});
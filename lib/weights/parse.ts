@@ -0,0 +1,87 @@
+import { BLOCK_TIME_SECONDS } from './constants';
+import type { EnvScore, ModelRow, WeightsCell, WeightsData } from './types';
+import { getLayerColumns } from './validate';
+
+// Env cells look like "accuracy/x/samples", optionally with a '*' after the
+// accuracy. The '*' is stripped from the score and reported as `marked`.
+export const parseEnvScore = (scoreStr: string) => {
+  if (!scoreStr || scoreStr === '') return null;
+  const parts = scoreStr.split('/');
+  if (parts.length < 1) return null;
+  const accuracy = parseFloat(parts[0].replace('*', ''));
+  return isNaN(accuracy) ? null : accuracy;
+};
+
+export const parseTotalSamples = (scoreStr: string) => {
+  if (!scoreStr || scoreStr === '') return 0;
+  const parts = scoreStr.split('/');
+  if (parts.length < 3) return 0;
+  const samples = parseInt(parts[2]);
+  return isNaN(samples) ? 0 : samples;
+};
+
+export const parseEnvCell = (scoreStr: string): EnvScore => ({
+  accuracy: parseEnvScore(scoreStr),
+  marked: !!scoreStr && scoreStr.split('/')[0].includes('*'),
+  samples: parseTotalSamples(scoreStr),
+});
+
+// "affine:SAT" -> "SAT"
+export const envLabel = (env: string) => env.split(':')[1] || env;
+
+export const ageInDays = (firstBlock: number, currentBlock: number, blockTimeSeconds = BLOCK_TIME_SECONDS) =>
+  ((currentBlock - firstBlock) * blockTimeSeconds) / 86400;
+
+const toNumber = (cell: WeightsCell | undefined) => {
+  const value = typeof cell === 'number' ? cell : parseFloat(cell ?? '');
+  return isNaN(value) ? 0 : value;
+};
+
+const toText = (cell: WeightsCell | undefined) =>
+  cell === null || cell === undefined ? '' : String(cell);
+
+// Parse rows into model objects. Expects a payload that passed validateWeightsData.
+export const parseModels = (data: WeightsData): ModelRow[] => {
+  const headerMap: Record<string, number> = {};
+  data.data.header.forEach((h, i) => headerMap[h] = i);
+  const layerColumns = getLayerColumns(data.data.header);
+
+  return data.data.rows.map((row) => {
+    const environments: Record<string, string> = {};
+    data.data.environments.forEach(env => {
+      environments[env] = toText(row[headerMap[env]]);
+    });
+
+    // Calculate average environment score and total samples
+    const scores = Object.values(environments)
+      .map(parseEnvScore)
+      .filter((score): score is number => score !== null);
+
+    const avgEnvScore = scores.length > 0
+      ? scores.reduce((sum, score) => sum + score, 0) / scores.length
+      : null;
+
+    const totalSamples = Object.values(environments)
+      .reduce((sum, env) => sum + parseTotalSamples(env), 0);
+
+    const layerPoints: Record<string, number> = {};
+    layerColumns.forEach(layer => {
+      layerPoints[layer] = toNumber(row[headerMap[layer]]);
+    });
+
+    return {
+      uid: toNumber(row[headerMap['UID']]),
+      hotkey: toText(row[headerMap['Hotkey']]),
+      model: toText(row[headerMap['Model']]),
+      revision: toText(row[headerMap['Rev']]),
+      environments,
+      layerPoints,
+      totalPoints: toNumber(row[headerMap['Pts']]),
+      eligible: row[headerMap['Elig']] === 'Y',
+      firstBlock: toNumber(row[headerMap['FirstBlk']]),
+      weight: toNumber(row[headerMap['Wgt']]),
+      avgEnvScore,
+      totalSamples,
+    };
+  });
+};
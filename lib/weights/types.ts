@@ -0,0 +1,45 @@
+// A single cell of the upstream table; the column decides which kind
+export type WeightsCell = string | number | null;
+
+export interface WeightsStats {
+  eligible_count: number;
+  active_count: number;
+  queryable_count: number;
+  total_miners: number;
+}
+
+export interface WeightsData {
+  schema_version: string;
+  timestamp: number;
+  block: number;
+  data: {
+    header: string[];
+    rows: WeightsCell[][];
+    stats: WeightsStats;
+    env_winners: Record<string, string>;
+    environments: string[];
+  };
+}
+
+export interface ModelRow {
+  uid: number;
+  hotkey: string;
+  model: string;
+  revision: string;
+  environments: Record<string, string>;
+  layerPoints: Record<string, number>;
+  totalPoints: number;
+  eligible: boolean;
+  firstBlock: number;
+  weight: number;
+  avgEnvScore: number | null;
+  totalSamples: number;
+}
+
+// One parsed environment cell, e.g. "81.25*/0.43/1200"
+export interface EnvScore {
+  accuracy: number | null;
+  // The accuracy carried a '*' suffix upstream
+  marked: boolean;
+  samples: number;
+}
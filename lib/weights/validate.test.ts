@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { loadFixture } from '@/test/fixtures';
+import { WeightsValidationError, getLayerColumns, schemaMajor, validateWeightsData } from './validate';
+
+const validationIssues = (input: unknown) => {
+  try {
+    validateWeightsData(input);
+  } catch (error) {
+    if (error instanceof WeightsValidationError) return error.issues;
+    throw error;
+  }
+  return [];
+};
+
+describe('validateWeightsData', () => {
+  it('accepts a well-formed payload', () => {
+    const payload = loadFixture('weights/basic.json');
+    expect(validateWeightsData(payload)).toBe(payload);
+  });
+
+  it('names the required columns that are missing', () => {
+    expect(validationIssues(loadFixture('weights/missing-columns.json')))
+      .toEqual(['missing columns: Pts, Wgt']);
+  });
+
+  it('requires a column for every listed environment', () => {
+    const fixture = validateWeightsData(loadFixture('weights/basic.json'));
+    const payload: unknown = {
+      ...fixture,
+      data: { ...fixture.data, environments: [...fixture.data.environments, 'affine:HVM'] },
+    };
+    expect(validationIssues(payload)).toEqual(['missing columns: affine:HVM']);
+  });
+
+  it('rejects an unknown schema_version', () => {
+    expect(validationIssues(loadFixture('weights/unknown-schema.json')))
+      .toEqual(['unsupported schema_version "2.0" (expected 1.x)']);
+  });
+
+  it('reports rows that do not line up with the header', () => {
+    const fixture = validateWeightsData(loadFixture('weights/basic.json'));
+    const rows = fixture.data.rows.map((row, i) => i === 1 ? row.slice(0, -1) : row);
+    const payload: unknown = { ...fixture, data: { ...fixture.data, rows } };
+    expect(validationIssues(payload)).toEqual(['row 1 has 16 cells, expected 17']);
+  });
+
+  it('reports every structural problem at once', () => {
+    const issues = validationIssues({ schema_version: '1.0', block: '6712450', data: { rows: [] } });
+    expect(issues).toEqual([
+      'block must be a number',
+      'timestamp must be a number',
+      'data.header must be an array of strings',
+      'data.environments must be an array of strings',
+      'data.stats is missing',
+      'data.env_winners must map environments to hotkeys',
+    ]);
+  });
+
+  it('rejects non-object payloads', () => {
+    expect(() => validateWeightsData(null)).toThrow(WeightsValidationError);
+    expect(() => validateWeightsData([])).toThrow('payload is not an object');
+  });
+});
+
+describe('schemaMajor', () => {
+  it('reads the major version from common spellings', () => {
+    expect(schemaMajor('1')).toBe(1);
+    expect(schemaMajor('1.4')).toBe(1);
+    expect(schemaMajor('v2.0')).toBe(2);
+    expect(schemaMajor('latest')).toBeNull();
+  });
+});
+
+describe('getLayerColumns', () => {
+  it('finds layer columns in numeric order', () => {
+    expect(getLayerColumns(['UID', 'L10', 'L3', 'Layer', 'L4', 'Pts'])).toEqual(['L3', 'L4', 'L10']);
+  });
+});
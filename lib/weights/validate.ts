@@ -0,0 +1,109 @@
+import type { WeightsData } from './types';
+
+// Payloads with a different major schema version are rejected rather than
+// parsed into zeros
+export const SUPPORTED_SCHEMA_MAJOR = 1;
+
+export const REQUIRED_COLUMNS = ['UID', 'Hotkey', 'Model', 'Rev', 'Pts', 'Elig', 'FirstBlk', 'Wgt'];
+
+const STATS_FIELDS = ['eligible_count', 'active_count', 'queryable_count', 'total_miners'];
+
+// Cap on per-row issues so one systematic problem doesn't produce 256 messages
+const MAX_ROW_ISSUES = 5;
+
+export class WeightsValidationError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid weights payload: ${issues.join('; ')}`);
+    this.name = 'WeightsValidationError';
+    this.issues = issues;
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(v => typeof v === 'string');
+
+// "1", "1.2" and "v1.2" all have major version 1
+export const schemaMajor = (version: string) => {
+  const match = /^v?(\d+)/.exec(version.trim());
+  return match ? parseInt(match[1]) : null;
+};
+
+// Header entries shaped like "L3", "L10", ... in numeric order
+export const getLayerColumns = (header: string[]) =>
+  header
+    .filter(h => /^L\d+$/.test(h))
+    .sort((a, b) => parseInt(a.slice(1)) - parseInt(b.slice(1)));
+
+// Checks an untrusted /api/weights response and returns it typed, or throws
+// a WeightsValidationError listing everything that is wrong with it
+export const validateWeightsData = (input: unknown): WeightsData => {
+  if (!isRecord(input)) {
+    throw new WeightsValidationError(['payload is not an object']);
+  }
+
+  const issues: string[] = [];
+  const { schema_version, timestamp, block, data } = input;
+
+  if (typeof schema_version !== 'string') {
+    issues.push('schema_version is missing');
+  } else if (schemaMajor(schema_version) !== SUPPORTED_SCHEMA_MAJOR) {
+    issues.push(`unsupported schema_version "${schema_version}" (expected ${SUPPORTED_SCHEMA_MAJOR}.x)`);
+  }
+  if (typeof block !== 'number') issues.push('block must be a number');
+  if (typeof timestamp !== 'number') issues.push('timestamp must be a number');
+
+  if (!isRecord(data)) {
+    issues.push('data is missing');
+    throw new WeightsValidationError(issues);
+  }
+
+  const { header, rows, stats, env_winners, environments } = data;
+
+  if (!isStringArray(header)) issues.push('data.header must be an array of strings');
+  if (!isStringArray(environments)) issues.push('data.environments must be an array of strings');
+  if (!Array.isArray(rows)) issues.push('data.rows must be an array');
+
+  if (!isRecord(stats)) {
+    issues.push('data.stats is missing');
+  } else {
+    STATS_FIELDS
+      .filter(field => typeof stats[field] !== 'number')
+      .forEach(field => issues.push(`data.stats.${field} must be a number`));
+  }
+
+  if (!isRecord(env_winners) || !Object.values(env_winners).every(v => typeof v === 'string')) {
+    issues.push('data.env_winners must map environments to hotkeys');
+  }
+
+  if (isStringArray(header)) {
+    const expected = [...REQUIRED_COLUMNS, ...(isStringArray(environments) ? environments : [])];
+    const missing = expected.filter(column => !header.includes(column));
+    if (missing.length > 0) {
+      issues.push(`missing columns: ${missing.join(', ')}`);
+    }
+
+    if (Array.isArray(rows)) {
+      const rowIssues = rows.flatMap((row, i) => {
+        if (!Array.isArray(row)) return [`row ${i} is not an array`];
+        if (row.length !== header.length) {
+          return [`row ${i} has ${row.length} cells, expected ${header.length}`];
+        }
+        return [];
+      });
+      issues.push(...rowIssues.slice(0, MAX_ROW_ISSUES));
+      if (rowIssues.length > MAX_ROW_ISSUES) {
+        issues.push(`...and ${rowIssues.length - MAX_ROW_ISSUES} more row issues`);
+      }
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new WeightsValidationError(issues);
+  }
+  return input as unknown as WeightsData;
+};
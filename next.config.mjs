@@ -1,7 +1,10 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  experimental: {
+    // Starts the snapshot collector (see instrumentation.ts)
+    instrumentationHook: true,
+  },
 };
 
 export default nextConfig;
-
@@ -0,0 +1,74 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { loadFixture } from '@/test/fixtures';
+import { startMockUpstream, type MockUpstream } from '@/test/mock-upstream';
+import { validateWeightsData } from '@/lib/weights';
+
+let upstream: MockUpstream;
+let historyDir: string;
+
+const request = (query: string) => new Request(`http://localhost/api/export${query}`);
+
+const loadRoute = async () => {
+  vi.resetModules();
+  return import('@/app/api/export/route');
+};
+
+beforeAll(async () => {
+  upstream = await startMockUpstream({});
+  historyDir = mkdtempSync(path.join(tmpdir(), 'export-history-'));
+  process.env.AFFINE_WEIGHTS_URL = `${upstream.url}/api/weights`;
+  process.env.HISTORY_DIR = historyDir;
+});
+
+afterAll(async () => {
+  await upstream.close();
+  rmSync(historyDir, { recursive: true, force: true });
+  delete process.env.AFFINE_WEIGHTS_URL;
+  delete process.env.HISTORY_DIR;
+});
+
+beforeEach(() => {
+  upstream.routes['/api/weights'] = () => ({ body: loadFixture('weights/basic.json') });
+});
+
+describe('GET /api/export', () => {
+  it('exports the current weights as CSV by default, highest weight first', async () => {
+    const { GET } = await loadRoute();
+    const response = await GET(request(''));
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toContain('text/csv');
+    expect(response.headers.get('Content-Disposition')).toContain('affine-leaderboard-6712450.csv');
+
+    const rows = (await response.text()).trimEnd().split('\n').slice(1);
+    expect(rows.map(row => row.split(',')[1])).toEqual(['12', '47', '88', '203']);
+  });
+
+  it('serves a recorded snapshot by block', async () => {
+    const { saveSnapshot } = await import('@/lib/history');
+    const snapshot = validateWeightsData(loadFixture('weights/basic.json'));
+    await saveSnapshot({ ...snapshot, block: 6700000 });
+
+    const { GET } = await loadRoute();
+    const response = await GET(request('?format=ndjson&block=6700000'));
+    expect(response.status).toBe(200);
+    const first = JSON.parse((await response.text()).split('\n')[0]);
+    expect(first).toMatchObject({ block: 6700000, uid: 12 });
+  });
+
+  it('rejects unknown formats and missing blocks', async () => {
+    const { GET } = await loadRoute();
+    expect((await GET(request('?format=xml'))).status).toBe(400);
+    expect((await GET(request('?block=abc'))).status).toBe(400);
+    expect((await GET(request('?block=1'))).status).toBe(404);
+  });
+
+  it('returns 502 when upstream fails', async () => {
+    upstream.routes['/api/weights'] = () => ({ status: 500, body: { error: 'boom' } });
+    const { GET } = await loadRoute();
+    const response = await GET(request('?format=json'));
+    expect(response.status).toBe(502);
+  });
+});
@@ -0,0 +1,98 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { loadFixture } from '@/test/fixtures';
+import { validateWeightsData } from '@/lib/weights';
+
+let historyDir: string;
+
+const request = (query: string) => new Request(`http://localhost/api/history${query}`);
+
+const loadRoute = async () => {
+  vi.resetModules();
+  return import('@/app/api/history/route');
+};
+
+beforeAll(async () => {
+  historyDir = mkdtempSync(path.join(tmpdir(), 'history-route-'));
+  process.env.HISTORY_DIR = historyDir;
+  vi.resetModules();
+  const { saveSnapshot } = await import('@/lib/history');
+  const snapshot = validateWeightsData(loadFixture('weights/basic.json'));
+  await saveSnapshot({ ...snapshot, block: 100 });
+  await saveSnapshot({ ...snapshot, block: 200, timestamp: snapshot.timestamp + 1200 });
+});
+
+afterAll(() => {
+  rmSync(historyDir, { recursive: true, force: true });
+  delete process.env.HISTORY_DIR;
+});
+
+describe('GET /api/history', () => {
+  it('lists recorded snapshots', async () => {
+    const { GET } = await loadRoute();
+    const body = await (await GET(request(''))).json();
+    expect(body.snapshots.map((s: { block: number }) => s.block)).toEqual([100, 200]);
+  });
+
+  it('serves one UID\'s history', async () => {
+    const { GET } = await loadRoute();
+    const body = await (await GET(request('?uid=47'))).json();
+    expect(body.uid).toBe(47);
+    expect(body.points.map((p: { block: number }) => p.block)).toEqual([100, 200]);
+    expect(body.points[0]).toMatchObject({ weight: 0.2318, totalPoints: 4, eligible: true });
+  });
+
+  it('limits history by block or by days before the latest snapshot', async () => {
+    const { GET } = await loadRoute();
+    const blocks = async (query: string) =>
+      (await (await GET(request(query))).json()).points.map((p: { block: number }) => p.block);
+    expect(await blocks('?uid=47&from=150')).toEqual([200]);
+    // A thousandth of a day is under ten 12s blocks
+    expect(await blocks('?uid=47&days=0.001')).toEqual([200]);
+    expect(await blocks('?uid=47&days=1')).toEqual([100, 200]);
+  });
+
+  it('converts days to blocks with the configured block time', async () => {
+    process.env.NEXT_PUBLIC_BLOCK_TIME_SECONDS = '0.5';
+    try {
+      const { GET } = await loadRoute();
+      const body = await (await GET(request('?uid=47&days=0.001'))).json();
+      // 86.4s is 173 half-second blocks, reaching back past block 100
+      expect(body.points.map((p: { block: number }) => p.block)).toEqual([100, 200]);
+    } finally {
+      delete process.env.NEXT_PUBLIC_BLOCK_TIME_SECONDS;
+    }
+  });
+
+  it('rejects bad parameters', async () => {
+    const { GET } = await loadRoute();
+    expect((await GET(request('?uid=abc'))).status).toBe(400);
+    expect((await GET(request('?from=abc'))).status).toBe(400);
+    expect((await GET(request('?days=0'))).status).toBe(400);
+  });
+
+  it('serves the full payload for one block', async () => {
+    const { GET } = await loadRoute();
+    const response = await GET(request('?block=200'));
+    expect(response.status).toBe(200);
+    const body = validateWeightsData(await response.json());
+    expect(body.block).toBe(200);
+    expect(body.data.rows).toHaveLength(4);
+  });
+
+  it('serves network concentration per block', async () => {
+    const { GET } = await loadRoute();
+    const body = await (await GET(request('?series=health&from=150'))).json();
+    expect(body.points).toHaveLength(1);
+    expect(body.points[0]).toMatchObject({ block: 200, nakamoto: 1, top5: 1, eligibleWeighted: 3, eligible: 3 });
+    expect((await GET(request('?series=gini'))).status).toBe(400);
+  });
+
+  it('rejects bad or unknown blocks', async () => {
+    const { GET } = await loadRoute();
+    expect((await GET(request('?block=abc'))).status).toBe(400);
+    expect((await GET(request('?block=150'))).status).toBe(404);
+  });
+});
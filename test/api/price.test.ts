@@ -0,0 +1,45 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { recordedRoutes, startMockUpstream, type MockUpstream } from '@/test/mock-upstream';
+
+let upstream: MockUpstream;
+
+const loadRoute = async () => {
+  vi.resetModules();
+  return import('@/app/api/price/route');
+};
+
+beforeAll(async () => {
+  upstream = await startMockUpstream({});
+  process.env.TAO_PRICE_URL = `${upstream.url}/api/v3/simple/price?ids=bittensor&vs_currencies=usd`;
+});
+
+afterAll(async () => {
+  await upstream.close();
+  delete process.env.TAO_PRICE_URL;
+});
+
+beforeEach(() => {
+  upstream.requests.length = 0;
+});
+
+describe('GET /api/price', () => {
+  it('normalizes the CoinGecko payload and caches it', async () => {
+    upstream.routes['/api/v3/simple/price'] = recordedRoutes()['/api/v3/simple/price'];
+    const { GET } = await loadRoute();
+
+    const response = await GET(new Request('http://localhost/api/price'));
+    expect(await response.json()).toEqual({ usd: 412.37 });
+
+    await GET(new Request('http://localhost/api/price'));
+    expect(upstream.requests).toHaveLength(1);
+  });
+
+  it('returns 502 when the payload has no price', async () => {
+    upstream.routes['/api/v3/simple/price'] = () => ({ body: {} });
+    const { GET } = await loadRoute();
+
+    const response = await GET(new Request('http://localhost/api/price'));
+    expect(response.status).toBe(502);
+    expect((await response.json()).error).toBe('Price payload has no bittensor.usd');
+  });
+});
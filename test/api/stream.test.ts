@@ -0,0 +1,134 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { loadFixture } from '@/test/fixtures';
+import { startMockUpstream, type MockUpstream } from '@/test/mock-upstream';
+
+let upstream: MockUpstream;
+let block: number;
+
+const loadRoute = async () => {
+  vi.resetModules();
+  return import('@/app/api/stream/route');
+};
+
+// Reads server-sent events off a response body until `count` named events arrived
+const readEvents = async (reader: ReadableStreamDefaultReader<Uint8Array>, count: number) => {
+  const decoder = new TextDecoder();
+  const events: { event: string; data: string }[] = [];
+  let buffer = '';
+  while (events.length < count) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    let end: number;
+    while ((end = buffer.indexOf('\n\n')) !== -1) {
+      const chunk = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      const event = chunk.match(/^event: (.*)$/m)?.[1] ?? 'message';
+      const data = chunk.match(/^data: (.*)$/m)?.[1] ?? '';
+      events.push({ event, data });
+    }
+  }
+  return events;
+};
+
+beforeAll(async () => {
+  upstream = await startMockUpstream({});
+  process.env.AFFINE_WEIGHTS_URL = `${upstream.url}/api/weights`;
+  process.env.WEIGHTS_CACHE_TTL = '0';
+  process.env.WEIGHTS_STALE_TTL = '0';
+  process.env.STREAM_POLL_INTERVAL = '50';
+  process.env.STREAM_HEARTBEAT_INTERVAL = '60000';
+});
+
+afterAll(async () => {
+  await upstream.close();
+  delete process.env.AFFINE_WEIGHTS_URL;
+  delete process.env.WEIGHTS_CACHE_TTL;
+  delete process.env.WEIGHTS_STALE_TTL;
+  delete process.env.STREAM_POLL_INTERVAL;
+  delete process.env.STREAM_HEARTBEAT_INTERVAL;
+  delete process.env.NEXT_PUBLIC_DEPLOYMENTS;
+});
+
+beforeEach(() => {
+  block = 6712450;
+  upstream.routes['/api/weights'] = () => ({
+    body: { ...(loadFixture('weights/basic.json') as object), block },
+  });
+});
+
+describe('GET /api/stream', () => {
+  it('pushes the payload on connect and again only when the block changes', async () => {
+    const { GET } = await loadRoute();
+    const abort = new AbortController();
+    const response = await GET(new Request('http://localhost/api/stream', { signal: abort.signal }));
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+    const reader = response.body!.getReader();
+
+    const [first] = await readEvents(reader, 1);
+    expect(first.event).toBe('weights');
+    expect(JSON.parse(first.data).block).toBe(6712450);
+
+    // Several polls at the same block send nothing; the next block is pushed
+    await new Promise(resolve => setTimeout(resolve, 200));
+    block = 6712451;
+    const [second] = await readEvents(reader, 1);
+    expect(JSON.parse(second.data).block).toBe(6712451);
+
+    abort.abort();
+    const polls = upstream.requests.length;
+    await new Promise(resolve => setTimeout(resolve, 200));
+    expect(upstream.requests.length).toBe(polls);
+  });
+
+  it('streams each deployment its own payload', async () => {
+    process.env.NEXT_PUBLIC_DEPLOYMENTS = JSON.stringify([{ id: 'testnet', weightsUrl: `${upstream.url}/testnet/weights` }]);
+    upstream.routes['/testnet/weights'] = () => ({
+      body: { ...(loadFixture('weights/basic.json') as object), block: 42 },
+    });
+    const { GET } = await loadRoute();
+    const abort = new AbortController();
+    const open = (query: string) =>
+      GET(new Request(`http://localhost/api/stream${query}`, { signal: abort.signal }));
+
+    const [mainnet] = await readEvents((await open('')).body!.getReader(), 1);
+    const [testnet] = await readEvents((await open('?deployment=testnet')).body!.getReader(), 1);
+    expect(JSON.parse(mainnet.data).block).toBe(6712450);
+    expect(JSON.parse(testnet.data).block).toBe(42);
+
+    abort.abort();
+    delete process.env.NEXT_PUBLIC_DEPLOYMENTS;
+  });
+
+  it('survives an abort after the body was cancelled', async () => {
+    const { GET } = await loadRoute();
+    const abort = new AbortController();
+    const response = await GET(new Request('http://localhost/api/stream', { signal: abort.signal }));
+    const reader = response.body!.getReader();
+    await readEvents(reader, 1);
+
+    await reader.cancel();
+    // Closing the already cancelled stream again would throw inside the abort listener
+    expect(() => abort.abort()).not.toThrow();
+    await new Promise(resolve => setTimeout(resolve, 50));
+  });
+
+  it('rejects an unknown deployment', async () => {
+    const { GET } = await loadRoute();
+    expect((await GET(new Request('http://localhost/api/stream?deployment=devnet'))).status).toBe(400);
+  });
+
+  it('reports upstream failures', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    upstream.routes['/api/weights'] = () => ({ status: 500 });
+    const { GET } = await loadRoute();
+    const abort = new AbortController();
+    const response = await GET(new Request('http://localhost/api/stream', { signal: abort.signal }));
+
+    const [event] = await readEvents(response.body!.getReader(), 1);
+    expect(event.event).toBe('upstream-error');
+    expect(JSON.parse(event.data).error).toContain('500');
+    abort.abort();
+    vi.restoreAllMocks();
+  });
+});
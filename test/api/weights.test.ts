@@ -0,0 +1,156 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { loadFixture } from '@/test/fixtures';
+import { startMockUpstream, type MockUpstream } from '@/test/mock-upstream';
+
+let upstream: MockUpstream;
+
+const request = (headers: Record<string, string> = {}, query = '') =>
+  new Request(`http://localhost/api/weights${query}`, { headers });
+
+// Fresh module state (and therefore an empty cache) for every test
+const loadRoute = async () => {
+  vi.resetModules();
+  return import('@/app/api/weights/route');
+};
+
+beforeAll(async () => {
+  upstream = await startMockUpstream({});
+  process.env.AFFINE_WEIGHTS_URL = `${upstream.url}/api/weights`;
+});
+
+afterAll(async () => {
+  await upstream.close();
+  delete process.env.AFFINE_WEIGHTS_URL;
+  delete process.env.WEIGHTS_CACHE_TTL;
+  delete process.env.WEIGHTS_STALE_TTL;
+  delete process.env.NEXT_PUBLIC_DEPLOYMENTS;
+});
+
+beforeEach(() => {
+  upstream.requests.length = 0;
+  upstream.routes['/api/weights'] = () => ({ body: loadFixture('weights/basic.json') });
+  process.env.WEIGHTS_CACHE_TTL = '10000';
+  process.env.WEIGHTS_STALE_TTL = '60000';
+});
+
+describe('GET /api/weights', () => {
+  it('proxies upstream once and serves repeats from cache', async () => {
+    const { GET } = await loadRoute();
+
+    const first = await GET(request());
+    expect(first.status).toBe(200);
+    expect(first.headers.get('X-Cache')).toBe('MISS');
+    expect(await first.json()).toEqual(loadFixture('weights/basic.json'));
+
+    const second = await GET(request());
+    expect(second.headers.get('X-Cache')).toBe('HIT');
+    expect(upstream.requests).toHaveLength(1);
+  });
+
+  it('answers a matching If-None-Match with 304', async () => {
+    const { GET } = await loadRoute();
+    const etag = (await GET(request())).headers.get('ETag')!;
+
+    const revalidated = await GET(request({ 'If-None-Match': etag }));
+    expect(revalidated.status).toBe(304);
+    expect(await revalidated.text()).toBe('');
+
+    const changed = await GET(request({ 'If-None-Match': '"something-else"' }));
+    expect(changed.status).toBe(200);
+  });
+
+  it('serves stale data while revalidating in the background', async () => {
+    process.env.WEIGHTS_CACHE_TTL = '200';
+    const { GET } = await loadRoute();
+    await GET(request());
+
+    const updated = loadFixture('weights/basic.json') as { block: number };
+    updated.block += 1;
+    upstream.routes['/api/weights'] = () => ({ body: updated });
+    await new Promise(resolve => setTimeout(resolve, 250));
+
+    const stale = await GET(request());
+    expect(stale.headers.get('X-Cache')).toBe('STALE');
+    expect((await stale.json()).block).toBe(updated.block - 1);
+
+    // The background refresh lands and starts a fresh TTL window
+    await vi.waitFor(async () => {
+      const fresh = await GET(request());
+      expect(fresh.headers.get('X-Cache')).toBe('HIT');
+      expect((await fresh.json()).block).toBe(updated.block);
+    });
+    expect(upstream.requests).toHaveLength(2);
+  });
+
+  it('refetches once the stale window has passed', async () => {
+    process.env.WEIGHTS_CACHE_TTL = '0';
+    process.env.WEIGHTS_STALE_TTL = '0';
+    const { GET } = await loadRoute();
+
+    await GET(request());
+    expect((await GET(request())).headers.get('X-Cache')).toBe('MISS');
+    expect(upstream.requests).toHaveLength(2);
+  });
+
+  it('sends the upstream ETag back when revalidating', async () => {
+    process.env.WEIGHTS_CACHE_TTL = '0';
+    process.env.WEIGHTS_STALE_TTL = '0';
+    upstream.routes['/api/weights'] = (req) => req.headers['if-none-match'] === '"v1"'
+      ? { status: 304 }
+      : { headers: { ETag: '"v1"' }, body: loadFixture('weights/basic.json') };
+    const { GET } = await loadRoute();
+
+    await GET(request());
+    const second = await GET(request());
+    expect(second.status).toBe(200);
+    expect((await second.json()).block).toBe(6712450);
+    expect(upstream.requests[1].headers['if-none-match']).toBe('"v1"');
+  });
+
+  it('returns 502 with the validation error when upstream drifts', async () => {
+    upstream.routes['/api/weights'] = () => ({ body: loadFixture('weights/missing-columns.json') });
+    const { GET } = await loadRoute();
+
+    const response = await GET(request());
+    expect(response.status).toBe(502);
+    expect((await response.json()).error).toContain('missing columns: Pts, Wgt');
+  });
+
+  it('passes through a payload with zero miners', async () => {
+    upstream.routes['/api/weights'] = () => ({ body: loadFixture('weights/empty.json') });
+    const { GET } = await loadRoute();
+
+    const response = await GET(request());
+    expect(response.status).toBe(200);
+    expect((await response.json()).data.rows).toEqual([]);
+  });
+
+  it('proxies the deployment named in the query, each with its own cache', async () => {
+    process.env.NEXT_PUBLIC_DEPLOYMENTS = JSON.stringify([{ id: 'staging', weightsUrl: `${upstream.url}/staging/weights` }]);
+    const staging = loadFixture('weights/basic.json') as { block: number };
+    staging.block = 42;
+    upstream.routes['/staging/weights'] = () => ({ body: staging });
+    const { GET } = await loadRoute();
+
+    expect((await (await GET(request({}, '?deployment=staging'))).json()).block).toBe(42);
+    expect((await (await GET(request())).json()).block).toBe(6712450);
+    expect(upstream.requests.map(r => r.url)).toEqual(['/staging/weights', '/api/weights']);
+    delete process.env.NEXT_PUBLIC_DEPLOYMENTS;
+  });
+
+  it('returns 400 for an unknown deployment', async () => {
+    const { GET } = await loadRoute();
+
+    const response = await GET(request({}, '?deployment=devnet'));
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe('Unknown deployment "devnet"');
+    expect(upstream.requests).toHaveLength(0);
+  });
+
+  it('returns 502 when upstream is down', async () => {
+    upstream.routes['/api/weights'] = () => ({ status: 503 });
+    const { GET } = await loadRoute();
+
+    expect((await GET(request())).status).toBe(502);
+  });
+});
@@ -0,0 +1,120 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { loadFixture } from '@/test/fixtures';
+import { startMockUpstream, type MockUpstream } from '@/test/mock-upstream';
+import { run } from '@/cli';
+
+const FIXTURE = path.join(__dirname, 'fixtures', 'weights', 'basic.json');
+
+let upstream: MockUpstream;
+let outDir: string;
+
+// Runs the CLI in-process and captures what it prints
+const cli = async (...argv: string[]) => {
+  let stdout = '';
+  let stderr = '';
+  const sleeps: number[] = [];
+  const code = await run(argv, {
+    stdout: text => { stdout += text; },
+    stderr: text => { stderr += text; },
+    sleep: async ms => { sleeps.push(ms); },
+  });
+  return { code, stdout, stderr, sleeps };
+};
+
+beforeAll(async () => {
+  upstream = await startMockUpstream({
+    '/api/weights': () => ({ body: loadFixture('weights/basic.json') }),
+  });
+  outDir = mkdtempSync(path.join(tmpdir(), 'cli-'));
+});
+
+afterAll(async () => {
+  await upstream.close();
+  rmSync(outDir, { recursive: true, force: true });
+});
+
+describe('top', () => {
+  it('prints the leaderboard from a local file as a table', async () => {
+    const { code, stdout } = await cli('top', '--source', FIXTURE, '--limit', '2');
+    expect(code).toBe(0);
+    const lines = stdout.trimEnd().split('\n');
+    expect(lines[0]).toContain('Block #6712450');
+    expect(lines.slice(-2).map(l => l.split(/\s+/).slice(1, 3))).toEqual([
+      ['#1', '12'],
+      ['#2', '47'],
+    ]);
+  });
+
+  it('ranks by one environment from a URL as JSON', async () => {
+    const { code, stdout } = await cli('top', '--source', `${upstream.url}/api/weights`, '--env', 'ded', '--format', 'json');
+    expect(code).toBe(0);
+    expect(JSON.parse(stdout).map((r: { uid: number }) => r.uid)).toEqual([88, 12, 47, 203]);
+  });
+
+  it('filters and writes CSV in the export format', async () => {
+    const { stdout } = await cli('top', '--source', FIXTURE, '--eligible', '--search', 'qwen', '--format', 'csv');
+    const [header, ...rows] = stdout.trimEnd().split('\n');
+    expect(header.startsWith('block,uid,hotkey')).toBe(true);
+    expect(rows.map(r => r.split(',')[1])).toEqual(['12', '47']);
+  });
+
+  it('sorts by a named field', async () => {
+    const { code, stdout } = await cli('top', '--source', FIXTURE, '--sort', 'uid', '--format', 'json');
+    expect(code).toBe(0);
+    expect(JSON.parse(stdout).map((r: { uid: number }) => r.uid)).toEqual([203, 88, 47, 12]);
+  });
+
+  it('rejects bad arguments with exit code 2', async () => {
+    expect((await cli('top', '--source', FIXTURE, '--env', 'NOPE')).code).toBe(2);
+    expect((await cli('top', '--limit', '-1')).code).toBe(2);
+    expect((await cli('top', '--source', FIXTURE, '--sort', 'nonsense')).code).toBe(2);
+    expect((await cli('frobnicate')).code).toBe(2);
+  });
+
+  it('reads a named deployment from the environment', async () => {
+    process.env.NEXT_PUBLIC_DEPLOYMENTS = JSON.stringify([{ id: 'staging', weightsUrl: `${upstream.url}/api/weights` }]);
+    try {
+      expect((await cli('top', '--deployment', 'staging', '--limit', '1')).code).toBe(0);
+      expect((await cli('top', '--deployment', 'devnet')).code).toBe(2);
+    } finally {
+      delete process.env.NEXT_PUBLIC_DEPLOYMENTS;
+    }
+  });
+
+  it('exits 1 when the source cannot be loaded', async () => {
+    const { code, stderr } = await cli('top', '--source', path.join(outDir, 'missing.json'));
+    expect(code).toBe(1);
+    expect(stderr).toContain('missing.json');
+  });
+});
+
+describe('watch', () => {
+  it('prints watched miners once per block', async () => {
+    const { code, stdout, sleeps } = await cli(
+      'watch', '--source', FIXTURE, '--uid', '88', '--hotkey', '5F4tQyWrhfGVcNhoqeiNsR6KjD4wMZ2kfhLj4oHYuyHbZAc3',
+      '--format', 'json', '--count', '3', '--interval', '5'
+    );
+    expect(code).toBe(0);
+    const lines = stdout.trimEnd().split('\n');
+    // The block never changes, so only the first poll prints
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0]).miners.map((m: { uid: number }) => m.uid)).toEqual([12, 88]);
+    expect(sleeps).toEqual([5000, 5000]);
+  });
+
+  it('needs someone to watch', async () => {
+    expect((await cli('watch', '--source', FIXTURE, '--count', '1')).code).toBe(2);
+  });
+});
+
+describe('snapshot', () => {
+  it('writes the validated payload to a file', async () => {
+    const out = path.join(outDir, 'snapshot.json');
+    const { code } = await cli('snapshot', '--source', `${upstream.url}/api/weights`, '--out', out);
+    expect(code).toBe(0);
+    expect(JSON.parse(readFileSync(out, 'utf8')).block).toBe(6712450);
+  });
+});
@@ -0,0 +1,201 @@
+// @vitest-environment jsdom
+import { act, cleanup, fireEvent, render, screen, within } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { StubEventSource } from '@/test/event-source';
+import { loadFixture } from '@/test/fixtures';
+
+const replace = vi.fn();
+let searchParams = new URLSearchParams();
+
+vi.mock('next/navigation', () => ({
+  useRouter: () => ({ replace }),
+  usePathname: () => '/',
+  useSearchParams: () => searchParams,
+}));
+
+let weightsFixture = 'weights/basic.json';
+
+// Stands in for the app's own API routes
+const fetchMock = vi.fn(async (input: RequestInfo | URL) => {
+  const { pathname } = new URL(String(input), 'http://localhost');
+  const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+  if (pathname === '/api/weights') return json(loadFixture(weightsFixture));
+  if (pathname === '/api/price') return json({ usd: 412.37 });
+  if (pathname === '/api/history') return json({ snapshots: [] });
+  return json({ error: 'not found' }, 404);
+});
+
+const renderDashboard = async () => {
+  const { default: Page } = await import('@/app/page');
+  render(<Page />);
+  await screen.findByText(/Block #|Total Miners/);
+};
+
+// UIDs in table order
+const tableUids = () => within(screen.getAllByRole('table')[0])
+  .getAllByRole('link')
+  .filter(link => /^\/miner\/\d+$/.test(link.getAttribute('href') || ''))
+  .map(link => Number(link.textContent))
+  // Each row links its UID and its model
+  .filter((uid, i, all) => all.indexOf(uid) === i);
+
+// Colour class of a miner's medal, or null when it has none
+const medal = (uid: number) => {
+  const row = within(screen.getAllByRole('table')[0]).getAllByRole('link')
+    .find(link => link.getAttribute('href') === `/miner/${uid}`)?.closest('tr');
+  const icon = row?.querySelector('svg.lucide-award');
+  return icon?.getAttribute('class')?.match(/text-[a-z]+-\d+/)?.[0] ?? null;
+};
+
+const sortBy = (label: string) =>
+  fireEvent.click(within(screen.getAllByRole('table')[0]).getByRole('button', { name: label }));
+
+beforeEach(() => {
+  weightsFixture = 'weights/basic.json';
+  searchParams = new URLSearchParams();
+  vi.stubGlobal('fetch', fetchMock);
+  vi.stubGlobal('EventSource', StubEventSource);
+  StubEventSource.instances = [];
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  localStorage.clear();
+});
+
+afterEach(() => {
+  cleanup();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('dashboard leaderboard', () => {
+  it('lists miners by weight, highest first', async () => {
+    await renderDashboard();
+    expect(await screen.findByText('affine-labs/qwen3-8b-reason')).toBeTruthy();
+    expect(tableUids()).toEqual([12, 47, 88, 203]);
+  });
+
+  it('toggles sort direction when a header is clicked twice', async () => {
+    await renderDashboard();
+    await screen.findByText('affine-labs/qwen3-8b-reason');
+
+    act(() => sortBy('UID'));
+    expect(tableUids()).toEqual([203, 88, 47, 12]);
+    act(() => sortBy('UID'));
+    expect(tableUids()).toEqual([12, 47, 88, 203]);
+  });
+
+  it('awards medals by weight rank whatever the sort', async () => {
+    await renderDashboard();
+    await screen.findByText('affine-labs/qwen3-8b-reason');
+
+    act(() => sortBy('UID'));
+    expect(tableUids()).toEqual([203, 88, 47, 12]);
+    expect([12, 47, 88, 203].map(medal)).toEqual(['text-yellow-500', 'text-gray-400', 'text-orange-600', null]);
+  });
+
+  it('shows only eligible miners on the Eligible tab', async () => {
+    await renderDashboard();
+    await screen.findByText('affine-labs/qwen3-8b-reason');
+
+    act(() => { fireEvent.click(screen.getByRole('button', { name: /Eligible \(3\)/ })); });
+    expect(tableUids()).toEqual([12, 47, 88]);
+  });
+
+  it('filters by search and offers to clear when nothing matches', async () => {
+    await renderDashboard();
+    await screen.findByText('affine-labs/qwen3-8b-reason');
+    const search = screen.getByPlaceholderText(/Search/);
+
+    act(() => { fireEvent.change(search, { target: { value: 'llama' } }); });
+    expect(tableUids()).toEqual([88]);
+
+    act(() => { fireEvent.change(search, { target: { value: 'no-such-model' } }); });
+    expect(screen.getByText('No miners match your filters')).toBeTruthy();
+    act(() => { fireEvent.click(screen.getByRole('button', { name: 'Clear filters' })); });
+    expect(tableUids()).toHaveLength(4);
+  });
+
+  it('tells an empty upstream apart from an empty filter', async () => {
+    weightsFixture = 'weights/empty.json';
+    await renderDashboard();
+
+    expect(await screen.findByText('Upstream returned no miners')).toBeTruthy();
+    // Zero miners must not render NaN%
+    expect(screen.getByText('0.0% of total')).toBeTruthy();
+    expect(screen.queryByText(/NaN/)).toBeNull();
+  });
+
+  it('restores sort and tab from the URL', async () => {
+    searchParams = new URLSearchParams('sort=totalPoints&dir=asc&tab=eligible');
+    await renderDashboard();
+    await screen.findByText('affine-labs/qwen3-8b-reason');
+
+    expect(tableUids()).toEqual([88, 47, 12]);
+  });
+});
+
+describe('dashboard live status', () => {
+  const weightsCalls = () => fetchMock.mock.calls.filter(([input]) => String(input).startsWith('/api/weights')).length;
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('goes live once the stream opens', async () => {
+    await renderDashboard();
+    expect(screen.getByText('CONNECTING')).toBeTruthy();
+
+    act(() => StubEventSource.latest().open());
+    expect(screen.getByText('LIVE')).toBeTruthy();
+    expect(screen.getByText(/Live updates pushed as new blocks arrive/)).toBeTruthy();
+  });
+
+  it('shows streamed blocks and marks upstream errors stale', async () => {
+    await renderDashboard();
+    expect(await screen.findByText('#6,712,450')).toBeTruthy();
+    const source = StubEventSource.latest();
+
+    act(() => source.emit('weights', { ...(loadFixture('weights/basic.json') as object), block: 6712451 }));
+    expect(await screen.findByText('#6,712,451')).toBeTruthy();
+    expect(screen.getByText('LIVE')).toBeTruthy();
+
+    act(() => source.emit('upstream-error', { error: 'Upstream responded with 503' }));
+    expect(screen.getByText('STALE')).toBeTruthy();
+  });
+
+  it('reconnects with backoff after the stream drops', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    await renderDashboard();
+    const first = StubEventSource.latest();
+    act(() => first.open());
+
+    act(() => first.fail());
+    expect(first.closed).toBe(true);
+    expect(screen.getByText('OFFLINE')).toBeTruthy();
+
+    // The first retry waits 1s plus up to 20% jitter
+    await act(() => vi.advanceTimersByTimeAsync(900));
+    expect(StubEventSource.instances).toHaveLength(1);
+    await act(() => vi.advanceTimersByTimeAsync(400));
+    expect(StubEventSource.instances).toHaveLength(2);
+
+    act(() => StubEventSource.latest().open());
+    expect(screen.getByText('LIVE')).toBeTruthy();
+  });
+
+  it('polls instead when the browser has no EventSource', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    vi.stubGlobal('EventSource', undefined);
+    await renderDashboard();
+
+    expect(screen.getByText('POLLING')).toBeTruthy();
+    expect(screen.getByText(/Refreshes every 10 seconds/)).toBeTruthy();
+    expect(screen.queryByText('LIVE')).toBeNull();
+
+    const before = weightsCalls();
+    await act(() => vi.advanceTimersByTimeAsync(10000));
+    expect(weightsCalls()).toBe(before + 1);
+  });
+});
@@ -0,0 +1,93 @@
+// @vitest-environment jsdom
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { cleanup, render, screen } from '@testing-library/react';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { StubEventSource } from '@/test/event-source';
+import { recordedRoutes, startMockUpstream, type MockUpstream } from '@/test/mock-upstream';
+
+// The whole stack minus the browser: the page renders in jsdom, its /api
+// requests go to the real route handlers, and those proxy the mock upstream.
+
+vi.mock('next/navigation', () => ({
+  useRouter: () => ({ replace: vi.fn() }),
+  usePathname: () => '/',
+  useSearchParams: () => new URLSearchParams(),
+}));
+
+let upstream: MockUpstream;
+let historyDir: string;
+const realFetch = globalThis.fetch;
+
+const ROUTES: Record<string, () => Promise<{ GET: (request: Request) => Promise<Response> }>> = {
+  '/api/weights': () => import('@/app/api/weights/route'),
+  '/api/price': () => import('@/app/api/price/route'),
+  '/api/history': () => import('@/app/api/history/route'),
+};
+
+const appFetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+  const url = new URL(String(input), 'http://localhost');
+  // Upstream requests made by the route handlers themselves
+  if (url.host !== 'localhost') return realFetch(input, init);
+  const route = ROUTES[url.pathname];
+  if (!route) return new Response(null, { status: 404 });
+  const { GET } = await route();
+  return GET(new Request(url, init));
+};
+
+beforeAll(async () => {
+  upstream = await startMockUpstream(recordedRoutes());
+  historyDir = mkdtempSync(path.join(tmpdir(), 'smoke-history-'));
+  process.env.AFFINE_WEIGHTS_URL = `${upstream.url}/api/weights`;
+  process.env.TAO_PRICE_URL = `${upstream.url}/api/v3/simple/price?ids=bittensor&vs_currencies=usd`;
+  process.env.HISTORY_DIR = historyDir;
+});
+
+afterAll(async () => {
+  await upstream.close();
+  rmSync(historyDir, { recursive: true, force: true });
+  delete process.env.AFFINE_WEIGHTS_URL;
+  delete process.env.TAO_PRICE_URL;
+  delete process.env.HISTORY_DIR;
+});
+
+beforeEach(() => {
+  // Fresh route caches per test
+  vi.resetModules();
+  Object.assign(upstream.routes, recordedRoutes());
+  vi.stubGlobal('fetch', appFetch);
+  vi.stubGlobal('EventSource', StubEventSource);
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  cleanup();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+const renderPage = async () => {
+  const { default: Page } = await import('@/app/page');
+  render(<Page />);
+};
+
+describe('dashboard smoke test', () => {
+  it('renders the recorded upstream payload end to end', async () => {
+    await renderPage();
+
+    expect(await screen.findByText('#6,712,450')).toBeTruthy();
+    expect(await screen.findByText('$412.37')).toBeTruthy();
+    expect(screen.getByText('affine-labs/qwen3-8b-reason')).toBeTruthy();
+    expect(screen.getByText('4 models')).toBeTruthy();
+    expect(upstream.requests.some(r => r.url?.startsWith('/api/weights'))).toBe(true);
+  });
+
+  it('shows the error banner when upstream is down', async () => {
+    upstream.routes['/api/weights'] = () => ({ status: 503 });
+    await renderPage();
+
+    expect(await screen.findByText('Could not load weights data')).toBeTruthy();
+    expect(screen.getByRole('button', { name: 'Retry now' })).toBeTruthy();
+  });
+});
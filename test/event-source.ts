@@ -0,0 +1,40 @@
+// jsdom has no EventSource. This stand-in never connects on its own: the page
+// renders from its initial fetch, and tests drive each connection through
+// `instances` as the server would.
+export class StubEventSource {
+  static instances: StubEventSource[] = [];
+
+  onopen: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  closed = false;
+  private listeners = new Map<string, ((event: { data: string }) => void)[]>();
+
+  constructor(readonly url: string) {
+    StubEventSource.instances.push(this);
+  }
+
+  static latest() {
+    return StubEventSource.instances[StubEventSource.instances.length - 1];
+  }
+
+  addEventListener(type: string, listener: (event: { data: string }) => void) {
+    this.listeners.set(type, [...(this.listeners.get(type) ?? []), listener]);
+  }
+
+  close() {
+    this.closed = true;
+  }
+
+  open() {
+    this.onopen?.();
+  }
+
+  // A named server-sent event; `data` is sent as JSON like the stream route does
+  emit(type: string, data: unknown) {
+    this.listeners.get(type)?.forEach(listener => listener({ data: JSON.stringify(data) }));
+  }
+
+  fail() {
+    this.onerror?.();
+  }
+}
@@ -0,0 +1,6 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+
+// Loads a recorded payload from test/fixtures, e.g. loadFixture('weights/basic.json')
+export const loadFixture = (name: string): unknown =>
+  JSON.parse(readFileSync(path.join(__dirname, name), 'utf8'));
@@ -0,0 +1,49 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { loadFixture } from './fixtures';
+
+export interface MockResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+export type MockRoute = (request: IncomingMessage) => MockResponse;
+
+// A throwaway HTTP server standing in for dashboard.affine.io / CoinGecko.
+// Routes are keyed by pathname and can be swapped between requests.
+export const startMockUpstream = async (routes: Record<string, MockRoute>) => {
+  const requests: IncomingMessage[] = [];
+
+  const server = createServer((request: IncomingMessage, response: ServerResponse) => {
+    requests.push(request);
+    const { pathname } = new URL(request.url || '/', 'http://localhost');
+    const route = routes[pathname];
+    if (!route) {
+      response.writeHead(404).end();
+      return;
+    }
+
+    const { status = 200, headers = {}, body } = route(request);
+    response.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    response.end(body === undefined ? undefined : JSON.stringify(body));
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    routes,
+    requests,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+};
+
+export type MockUpstream = Awaited<ReturnType<typeof startMockUpstream>>;
+
+// Recorded dashboard.affine.io and CoinGecko responses at their real paths
+export const recordedRoutes = (weightsFixture = 'weights/basic.json'): Record<string, MockRoute> => ({
+  '/api/weights': () => ({ body: loadFixture(weightsFixture) }),
+  '/api/v3/simple/price': () => ({ body: loadFixture('price/coingecko.json') }),
+});
@@ -0,0 +1,17 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('.', import.meta.url)),
+    },
+  },
+  // tsconfig leaves JSX to Next; component tests need the React 17+ runtime
+  esbuild: {
+    jsx: 'automatic',
+  },
+  test: {
+    environment: 'node',
+  },
+});